@@ -1,9 +1,21 @@
-// TODO: when we run the program,
-// 1. look for existing schema files
-// 2. check schemas against repo
-// 3. output warnings/errors about mismatches
-// 4. (if non-quiet?) if some can be automatically fixed, then offer to fix them interactively
+#!/usr/bin/env node
+// Entry point of the code-couplet command line program:
+// look for existing schema files, check them against the repo and report mismatches.
+// See src/cli.ts for the available commands.
+// When imported as a library, exports the headless check and fix functions.
 
-import { PROJECT_NAME, SCHEMA_VERSION } from "./src/constants";
+import { main } from "./src/cli";
 
-console.log(`starting ${PROJECT_NAME} v${SCHEMA_VERSION}`);
+export {
+  checkFile,
+  checkSaveRoot,
+  findSaveRootsWithSchemas,
+} from "./src/check";
+export { applyMoveFixes, fixCheckResult } from "./src/fix";
+export { writeReport } from "./src/reports";
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
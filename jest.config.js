@@ -1,4 +1,6 @@
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
+  // Other files in __tests__ are helpers shared by the tests
+  testMatch: ["**/__tests__/**/*.test.ts"],
 };
@@ -0,0 +1,22 @@
+import { parseArgs } from "../cli";
+
+describe("cli", () => {
+  it("parses positional arguments and flags", () => {
+    const args = parseArgs(["a", "--quiet", "--format=json", "b"]);
+    expect(args.positional).toEqual(["a", "b"]);
+    expect(args.flags.get("quiet")).toBe(true);
+    expect(args.flags.get("format")).toBe("json");
+  });
+
+  it("consumes the next argument for value flags", () => {
+    const args = parseArgs(["--output", "out.json", "src"], ["output"]);
+    expect(args.positional).toEqual(["src"]);
+    expect(args.flags.get("output")).toBe("out.json");
+  });
+
+  it("treats everything after -- as positional", () => {
+    const args = parseArgs(["--", "--not-a-flag"]);
+    expect(args.positional).toEqual(["--not-a-flag"]);
+    expect(args.flags.size).toBe(0);
+  });
+});
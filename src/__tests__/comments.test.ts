@@ -0,0 +1,124 @@
+import {
+  allowsNestedBlockComments,
+  classifyLines,
+  CommentSyntax,
+  findBlockComments,
+  findTrailingComment,
+  getStringQuotes,
+} from "../comments";
+import { getCommentSyntax, languageIdForPath } from "../commentSyntax";
+
+const cSyntax: CommentSyntax = {
+  lineComment: "//",
+  blockComment: ["/*", "*/"],
+};
+
+function blockTexts(
+  text: string,
+  syntax: CommentSyntax,
+  params: { nested?: boolean } = {}
+) {
+  return findBlockComments(text, syntax, params).map(({ start, end }) =>
+    text.slice(start, end)
+  );
+}
+
+describe("comments", () => {
+  it("finds multi-line block comments", () => {
+    const text = "/**\n * Sorts.\n */\nsort(/* in place */ a);\n";
+    expect(blockTexts(text, cSyntax)).toEqual([
+      "/**\n * Sorts.\n */",
+      "/* in place */",
+    ]);
+    expect(blockTexts(text, { lineComment: "//" })).toEqual([]);
+  });
+
+  it("ignores block markers in line comments and unterminated comments", () => {
+    expect(blockTexts("// see /* here\nx();\n/* a */", cSyntax)).toEqual([
+      "/* a */",
+    ]);
+    expect(blockTexts("/* a */ b(); /* c", cSyntax)).toEqual(["/* a */"]);
+  });
+
+  it("nests block comments only where the language allows it", () => {
+    const text = "/* a /* b */ c */ d();";
+    expect(blockTexts(text, cSyntax)).toEqual(["/* a /* b */"]);
+    expect(allowsNestedBlockComments("rust")).toBe(true);
+    expect(allowsNestedBlockComments("typescript")).toBe(false);
+    expect(blockTexts(text, cSyntax, { nested: true })).toEqual([
+      "/* a /* b */ c */",
+    ]);
+  });
+
+  it("finds docstrings with the same start and end marker", () => {
+    const python: CommentSyntax = {
+      lineComment: "#",
+      blockComment: ['"""', '"""'],
+    };
+    const text = 'def f():\n    """\n    Doc.\n    """\n    # """ not a doc\n';
+    expect(blockTexts(text, python, { nested: true })).toEqual([
+      '"""\n    Doc.\n    """',
+    ]);
+  });
+
+  it("prefers block markers starting with the line marker", () => {
+    const lua: CommentSyntax = {
+      lineComment: "--",
+      blockComment: ["--[[", "]]"],
+    };
+    expect(blockTexts("--[[ a\nb ]]\n-- c", lua)).toEqual(["--[[ a\nb ]]"]);
+  });
+
+  it("finds comments after code on the same line", () => {
+    const line = "const RETRIES = 3; // keep in sync with server backoff";
+    expect(findTrailingComment(line, cSyntax)).toBe(19);
+    expect(findTrailingComment("  // whole line", cSyntax)).toBeNull();
+    expect(findTrailingComment("f(); /* done */", cSyntax)).toBe(5);
+    expect(findTrailingComment("f(/* a */ b);", cSyntax)).toBeNull();
+    expect(findTrailingComment('get("http://x"); // url', cSyntax)).toBe(17);
+    expect(findTrailingComment('s = "a \\" // b" // c', cSyntax)).toBe(16);
+    expect(
+      findTrailingComment('x = """a""" # doc', {
+        lineComment: "#",
+        blockComment: ['"""', '"""'],
+      })
+    ).toBe(12);
+  });
+
+  it("only skips the string quotes of the language", () => {
+    const line = "fn get<'a>(s: &'a str) -> &'a str { s } // borrowed";
+    const quotes = getStringQuotes("rust");
+    expect(findTrailingComment(line, cSyntax, { quotes })).toBe(40);
+    expect(findTrailingComment(line, cSyntax)).toBeNull();
+    expect(getStringQuotes("typescript")).toContain("`");
+  });
+
+  it("looks up built-in comment syntax by language or file name", () => {
+    expect(languageIdForPath("/repo/src/Main.RS")).toBe("rust");
+    expect(languageIdForPath("file:///repo/Dockerfile")).toBe("dockerfile");
+    expect(languageIdForPath("/repo/.gitignore")).toBeNull();
+    expect(getCommentSyntax({ languageId: "python" })).toEqual({
+      lineComment: "#",
+      blockComment: ['"""', '"""'],
+    });
+    // Unknown language IDs, like the "text" of documents read from disk, fall back to the path
+    expect(
+      getCommentSyntax({ languageId: "text", path: "/repo/a.sql" })
+    ).toEqual({ lineComment: "--", blockComment: ["/*", "*/"] });
+    expect(getCommentSyntax({ languageId: "text" })).toBeNull();
+  });
+
+  it("classifies lines of comments, code and whitespace", () => {
+    const text = "/*\n a\n*/\n\nf(); // b\n  // c\ng(/* d */);\n/* e */ h();";
+    expect(classifyLines(text, cSyntax)).toEqual([
+      "comment",
+      "comment",
+      "comment",
+      "empty",
+      "code",
+      "comment",
+      "code",
+      "code",
+    ]);
+  });
+});
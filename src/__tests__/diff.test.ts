@@ -0,0 +1,49 @@
+import { diffLines, unifiedDiff } from "../diff";
+
+describe("diff", () => {
+  it("finds the shortest edit script", () => {
+    const edits = diffLines(["a", "b", "c"], ["a", "x", "c", "d"]);
+    expect(edits.map((e) => `${e.type[0]}${e.line}`)).toEqual([
+      "ea",
+      "db",
+      "ix",
+      "ec",
+      "id",
+    ]);
+  });
+
+  it("returns an empty diff for equal texts", () => {
+    expect(unifiedDiff("a\nb", "a\nb", "old", "new")).toBe("");
+  });
+
+  it("groups changes into hunks with context", () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const newLines = oldLines.slice();
+    newLines[2] = "changed 2";
+    newLines[15] = "changed 15";
+    const diff = unifiedDiff(
+      oldLines.join("\n"),
+      newLines.join("\n"),
+      "a/f",
+      "b/f",
+      1
+    );
+    expect(diff).toBe(
+      [
+        "--- a/f",
+        "+++ b/f",
+        "@@ -2,3 +2,3 @@",
+        " line 1",
+        "-line 2",
+        "+changed 2",
+        " line 3",
+        "@@ -15,3 +15,3 @@",
+        " line 14",
+        "-line 15",
+        "+changed 15",
+        " line 16",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { applyMoveFixes } from "../fix";
+import { boundedEditDistance, findBestMatch, similarity } from "../fuzzy";
+import { emptySchema } from "../types";
+import { ErrorType, validate } from "../validation";
+import { makeDoc } from "./helpers";
+
+describe("fuzzy", () => {
+  it("computes edit distance up to the limit", () => {
+    expect(boundedEditDistance("kitten", "sitting", 5)).toBe(3);
+    expect(boundedEditDistance("kitten", "sitting", 2)).toBe(3);
+    expect(boundedEditDistance("", "abc", 3)).toBe(3);
+  });
+
+  it("ignores whitespace differences", () => {
+    expect(similarity("  a  b\n c", "a b c")).toBe(1);
+    expect(similarity("abcd", "abce")).toBe(0.75);
+    expect(similarity("abcd", "wxyz", 0.5)).toBe(0);
+  });
+
+  it("finds a re-indented block with a changed character", () => {
+    const doc = makeDoc(
+      [
+        "function f() {",
+        "  if (x) {",
+        "    // step one",
+        "    go(1);",
+        "  }",
+        "}",
+      ].join("\n")
+    );
+    const match = findBestMatch(doc, "// step one\ngo(2);", {
+      threshold: 0.8,
+    });
+    expect(match).not.toBeNull();
+    expect(doc.getText().slice(match!.start, match!.end)).toBe(
+      "    // step one\n    go(1);"
+    );
+    expect(match!.score).toBeGreaterThan(0.9);
+    expect(match!.score).toBeLessThan(1);
+  });
+
+  it("offers approximate move fixes from validate with their confidence", async () => {
+    const doc = makeDoc("\n\n  // hello world\nconst x = 1;\n");
+    const schema = emptySchema();
+    schema.comments.push({
+      commentValue: "// hello world!",
+      commentRange: { start: { line: 0, char: 0 }, end: { line: 0, char: 15 } },
+      codeRelativePath: "",
+      codeRange: { start: { line: 3, char: 0 }, end: { line: 3, char: 12 } },
+      codeValue: "const x = 1;",
+      id: 0,
+      metadata: {},
+      tags: [],
+    });
+    const [error] = await validate(doc, schema);
+    expect(error.moveFix!.commentRange.start.line).toBe(2);
+    expect(error.moveFixConfidence).toBeLessThan(1);
+
+    // The fix only moves the range, the changed text is not accepted
+    expect(error.moveFix!.commentValue).toBe("// hello world!");
+    const fixed = applyMoveFixes(schema, [error]);
+    expect(fixed.moved).toEqual([0]);
+    expect(fixed.approximate).toEqual([error]);
+    const [stillBroken] = await validate(doc, fixed.schema);
+    expect(stillBroken.errorType).toBe(ErrorType.CommentMismatch);
+    expect(stillBroken.commentRange.start.line).toBe(2);
+
+    const exactOnly = await validate(doc, schema, { fuzzyThreshold: 1 });
+    expect(exactOnly[0].moveFix).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+// Helpers shared by the tests: schema ranges, pins, documents and temporary folders.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { CurrentComment, Range } from "../types";
+
+/**
+ * Range within one line.
+ */
+export function range(line: number, start: number, end: number): Range {
+  return { start: { line, char: start }, end: { line, char: end } };
+}
+
+/**
+ * Range from the start of startLine to endChar of endLine.
+ */
+export function lineRange(
+  startLine: number,
+  endLine: number,
+  endChar: number
+): Range {
+  return {
+    start: { line: startLine, char: 0 },
+    end: { line: endLine, char: endChar },
+  };
+}
+
+/**
+ * Pin of "// keep sorted" to "sort(items);" on the next line of the same file,
+ * with the given fields replaced.
+ */
+export function pin(fields: Partial<CurrentComment> = {}): CurrentComment {
+  return {
+    commentValue: "// keep sorted",
+    commentRange: range(0, 0, 14),
+    codeRelativePath: "",
+    codeRange: range(1, 0, 12),
+    codeValue: "sort(items);",
+    id: 0,
+    metadata: {},
+    tags: [],
+    ...fields,
+  };
+}
+
+export function makeDoc(text: string, uri = "file:///src/a.ts"): TextDocument {
+  return TextDocument.create(uri, "typescript", 0, text);
+}
+
+/**
+ * Make temporary folders in the tests of the enclosing describe block, they are removed after each test.
+ * @returns a function which makes a new folder and returns its path
+ */
+export function useTempDirs(prefix: string): () => string {
+  const dirs: string[] = [];
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+  return () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), `couplet-${prefix}-`));
+    dirs.push(dir);
+    return dir;
+  };
+}
@@ -0,0 +1,90 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { checkFile } from "../check";
+import { carryRangeThroughHunks, parseHunks } from "../history";
+import { emptySchema } from "../types";
+import { lineRange, pin, range, useTempDirs } from "./helpers";
+
+describe("history", () => {
+  const makeTempDir = useTempDirs("history");
+
+  it("parses hunk headers with and without counts", () => {
+    const hunks = parseHunks(
+      [
+        "diff --git a/a b/a",
+        "@@ -3 +3,2 @@",
+        "-x",
+        "+y",
+        "+z",
+        "@@ -10,0 +12 @@",
+      ].join("\n")
+    );
+    expect(hunks).toEqual([
+      { oldStart: 3, oldCount: 1, newStart: 3, newCount: 2 },
+      { oldStart: 10, oldCount: 0, newStart: 12, newCount: 1 },
+    ]);
+  });
+
+  it("shifts ranges after hunks and keeps ranges before them", () => {
+    // Two lines inserted after line 1 (1-based), i.e. before index 1
+    const hunks = [{ oldStart: 1, oldCount: 0, newStart: 2, newCount: 2 }];
+    expect(carryRangeThroughHunks(lineRange(1, 2, 3), hunks)).toEqual(
+      lineRange(3, 4, 3)
+    );
+    expect(carryRangeThroughHunks(lineRange(0, 0, 3), hunks)).toEqual(
+      lineRange(0, 0, 3)
+    );
+  });
+
+  it("gives up on ranges touched by a hunk", () => {
+    // Line 3 (1-based) replaced
+    const hunks = [{ oldStart: 3, oldCount: 1, newStart: 3, newCount: 1 }];
+    expect(carryRangeThroughHunks(lineRange(1, 2, 3), hunks)).toBeNull();
+  });
+
+  it("re-anchors pins when lines shifted in later commits", async () => {
+    const root = makeTempDir();
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: root, stdio: "pipe" });
+    git("init", "-q");
+    git("config", "user.name", "Tester");
+    git("config", "user.email", "tester@example.com");
+    const schema = emptySchema();
+    // The comment text appears twice, so searching for it would find the wrong one
+    schema.comments.push(
+      pin({
+        commentValue: "// x",
+        commentRange: range(2, 0, 4),
+        codeRange: range(3, 0, 6),
+        codeValue: "x = 1;",
+      })
+    );
+    fs.mkdirSync(path.join(root, ".code-couplet"));
+    fs.writeFileSync(
+      path.join(root, ".code-couplet", "a.ts.json"),
+      JSON.stringify(schema)
+    );
+    fs.writeFileSync(path.join(root, "a.ts"), "// x\ny = 1;\n// x\nx = 1;\n");
+    git("add", ".");
+    git("commit", "-q", "-m", "pin", "--no-verify");
+    fs.writeFileSync(
+      path.join(root, "a.ts"),
+      "// x\ny = 1;\nz = 1;\n// x\nx = 1;\n"
+    );
+    git("commit", "-q", "-am", "insert", "--no-verify");
+
+    const saveRoot = URI.file(root);
+    const sourceUri = URI.file(path.join(root, "a.ts"));
+    const plain = await checkFile(saveRoot, sourceUri);
+    expect(plain!.errors).toHaveLength(1);
+
+    const anchored = await checkFile(saveRoot, sourceUri, { anchor: "git" });
+    expect(anchored!.errors).toHaveLength(0);
+    expect(anchored!.reanchored).toHaveLength(1);
+    expect(anchored!.reanchored![0].commentRange.start.line).toBe(3);
+    expect(anchored!.reanchored![0].codeRange.start.line).toBe(4);
+  });
+});
@@ -0,0 +1,76 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { checkStaged } from "../hook";
+import { emptySchema } from "../types";
+import { ErrorType } from "../validation";
+import { pin, range, useTempDirs } from "./helpers";
+
+function makeRepo(root: string) {
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: root, stdio: "pipe" });
+  git("init", "-q");
+  git("config", "user.name", "Tester");
+  git("config", "user.email", "tester@example.com");
+  const write = (relativePath: string, contents: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, relativePath)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(root, relativePath), contents);
+  };
+  const schema = emptySchema();
+  schema.comments.push(
+    pin({
+      commentValue: "// one",
+      commentRange: range(0, 0, 6),
+      codeRange: range(1, 0, 10),
+      codeValue: "const a=1;",
+    })
+  );
+  write("a.ts", "// one\nconst a=1;\n");
+  write(".code-couplet/a.ts.json", JSON.stringify(schema));
+  write("b.ts", "// unrelated\n");
+  git("add", "a.ts", ".code-couplet");
+  return { root: URI.file(root), git, write };
+}
+
+describe("hook", () => {
+  const makeTempDir = useTempDirs("hook");
+
+  it("validates staged content instead of the working tree", async () => {
+    const { root, git, write } = makeRepo(makeTempDir());
+    // Unstaged breakage is ignored
+    write("a.ts", "// two\nconst a=1;\n");
+    let result = await checkStaged(root);
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].errors).toHaveLength(0);
+
+    // Once staged, the broken pin is reported
+    git("add", "a.ts");
+    result = await checkStaged(root);
+    expect(result.files[0].errors).toHaveLength(1);
+    expect(result.files[0].errors[0].errorType).toBe(ErrorType.CommentMismatch);
+  });
+
+  it("only validates pins with the given tags", async () => {
+    const { root, git, write } = makeRepo(makeTempDir());
+    write("a.ts", "// two\nconst a=1;\n");
+    git("add", "a.ts");
+    let result = await checkStaged(root, { tags: ["perf"] });
+    expect(result.files).toHaveLength(0);
+
+    result = await checkStaged(root, { tags: [] });
+    expect(result.files[0].errors).toHaveLength(1);
+  });
+
+  it("skips pins whose files are not staged", async () => {
+    const { root, git } = makeRepo(makeTempDir());
+    git("commit", "-q", "-m", "init", "--no-verify");
+    git("add", "b.ts");
+    const result = await checkStaged(root);
+    expect(result.files).toHaveLength(0);
+    expect(result.failures).toHaveLength(0);
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as path from "path";
+import { URI, Utils } from "vscode-uri";
+
+import {
+  buildLegacySchemaPath,
+  buildSchemaPath,
+  listSchemaFiles,
+  loadSchema,
+  migrateSchemaFiles,
+  saveSchema,
+  schemaFileUriToSourceUri,
+} from "../schema";
+import { emptySchema } from "../types";
+import { useTempDirs } from "./helpers";
+
+const saveRoot = URI.file("/repo");
+const schemaPath = (sourcePath: string) =>
+  buildSchemaPath(saveRoot, Utils.joinPath(saveRoot, sourcePath)).path.slice(
+    "/repo/.code-couplet/".length
+  );
+
+describe("layout", () => {
+  const makeTempDir = useTempDirs("layout");
+
+  it("mirrors the source tree", () => {
+    expect(schemaPath("src/foo.ts")).toBe("src/foo.ts.json");
+    expect(schemaPath("foo.ts")).toBe("foo.ts.json");
+  });
+
+  it("escapes names which would be ambiguous", () => {
+    expect(schemaPath("50%/a.ts")).toBe("50%25/a.ts.json");
+    expect(schemaPath("acCCcb/c.ts")).toBe("a%63CCcb/c.ts.json");
+    // The directory can't collide with the schema file of a source file named "x"
+    expect(schemaPath("x.json/y.ts")).toBe("x%2Ejson/y.ts.json");
+    expect(schemaPath("x")).toBe("x.json");
+  });
+
+  it("maps schema paths back to source paths losslessly", () => {
+    for (const sourcePath of [
+      "src/foo.ts",
+      "50%/%2E.ts",
+      "acCCcb/ccCCc.ts",
+      "x.json/y.json",
+      "a b/c.ts",
+    ]) {
+      const sourceUri = Utils.joinPath(saveRoot, sourcePath);
+      expect(
+        schemaFileUriToSourceUri(buildSchemaPath(saveRoot, sourceUri)).path
+      ).toBe(sourceUri.path);
+    }
+  });
+
+  it("maps legacy schema paths back to source paths", () => {
+    const sourceUri = Utils.joinPath(saveRoot, "src/foo.ts");
+    const legacyUri = buildLegacySchemaPath(saveRoot, sourceUri);
+    expect(path.basename(legacyUri.path)).toBe("srccCCcfoo.ts.json");
+    expect(schemaFileUriToSourceUri(legacyUri).path).toBe(sourceUri.path);
+  });
+
+  it("loads legacy schema files and moves them on save or migrate", async () => {
+    const root = makeTempDir();
+    const schemaFolder = path.join(root, ".code-couplet");
+    fs.mkdirSync(schemaFolder);
+    const legacyFile = (name: string) => path.join(schemaFolder, name);
+    for (const name of ["srccCCca.ts.json", "srccCCcb.ts.json"]) {
+      fs.writeFileSync(legacyFile(name), JSON.stringify(emptySchema()));
+    }
+    const tmpRoot = URI.file(root);
+    const sourceA = Utils.joinPath(tmpRoot, "src/a.ts");
+    const sourceB = Utils.joinPath(tmpRoot, "src/b.ts");
+
+    expect(await loadSchema(tmpRoot, sourceA)).not.toBeNull();
+    await saveSchema(tmpRoot, sourceA, emptySchema());
+    expect(fs.existsSync(legacyFile("srccCCca.ts.json"))).toBe(false);
+    expect(fs.existsSync(path.join(schemaFolder, "src", "a.ts.json"))).toBe(
+      true
+    );
+
+    const migrated = await migrateSchemaFiles(tmpRoot);
+    expect(migrated.map((m) => m.newSchemaUri.path)).toEqual([
+      buildSchemaPath(tmpRoot, sourceB).path,
+    ]);
+    expect(fs.readdirSync(schemaFolder)).toEqual(["src"]);
+    expect(
+      (await listSchemaFiles(tmpRoot)).map(schemaFileUriToSourceUri)
+    ).toEqual([sourceA, sourceB]);
+  });
+});
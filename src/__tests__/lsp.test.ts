@@ -0,0 +1,208 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+
+import { LSP_COMMANDS, PinLanguageService } from "../lsp";
+import { useTempDirs } from "./helpers";
+
+function setupWorkspace(root: string) {
+  fs.mkdirSync(path.join(root, ".code-couplet"));
+  fs.writeFileSync(path.join(root, "a.ts"), "// keep in sync\nconst a = 1;\n");
+  fs.writeFileSync(path.join(root, "b.ts"), "\nconst b = 2;\n");
+  const uri = (name: string) => URI.file(path.join(root, name)).toString();
+  const openDocuments = new Map<string, TextDocument>();
+  const service = new PinLanguageService(
+    (uri) => openDocuments.get(uri),
+    [URI.file(root)]
+  );
+  return { root, uri, openDocuments, service };
+}
+
+// Ranges of the language server protocol, unlike the schema ranges of the helpers
+const range = (line: number, length: number) => ({
+  start: { line, character: 0 },
+  end: { line, character: length },
+});
+
+describe("lsp", () => {
+  const makeTempDir = useTempDirs("lsp");
+
+  it("pins, validates, hovers and unpins", async () => {
+    const { root, uri, openDocuments, service } = setupWorkspace(makeTempDir());
+    await service.executeCommand(LSP_COMMANDS.pin, [
+      {
+        commentUri: uri("a.ts"),
+        commentRange: range(0, 15),
+        codeUri: uri("b.ts"),
+        codeRange: range(1, 12),
+      },
+    ]);
+    // The comment marker comes from the built-in syntax of the file's extension
+    const schemaPath = path.join(root, ".code-couplet", "a.ts.json");
+    expect(
+      JSON.parse(fs.readFileSync(schemaPath).toString()).configuration
+        .lineComment
+    ).toBe("//");
+    expect(await service.getDiagnostics(uri("a.ts"))).toEqual([]);
+    expect(await service.getDependentUris(uri("b.ts"))).toEqual([
+      uri("b.ts"),
+      uri("a.ts"),
+    ]);
+
+    const hover = await service.getHover(uri("b.ts"), {
+      line: 1,
+      character: 3,
+    });
+    const { value } = hover!.contents as { value: string };
+    expect(value.split("\n\n")[0]).toBe("**Comment**: // keep in sync");
+    expect(value).toContain("**Created**: ");
+    const definitions = await service.getDefinition(uri("a.ts"), {
+      line: 0,
+      character: 3,
+    });
+    expect(definitions).toEqual([{ uri: uri("b.ts"), range: range(1, 12) }]);
+
+    // The unsaved text of open documents is what gets validated
+    openDocuments.set(
+      uri("b.ts"),
+      TextDocument.create(uri("b.ts"), "typescript", 1, "\nconst b = 3;\n")
+    );
+    const diagnostics = await service.getDiagnostics(uri("a.ts"));
+    expect(diagnostics).toHaveLength(1);
+    const actions = service.getCodeActions(uri("a.ts"), diagnostics);
+    expect(actions.map((a) => a.title)).toEqual([
+      'Change code to "const b = 2;"',
+      "Accept current code",
+    ]);
+    expect(actions[0].edit!.changes![uri("b.ts")][0].newText).toBe(
+      "const b = 2;"
+    );
+    await expect(
+      service.executeCommand(LSP_COMMANDS.acceptCurrentText, [
+        { ...actions[1].command!.arguments![0], targetIndex: 1 },
+      ])
+    ).rejects.toThrow("Pin 0 has no code target 1, cannot update");
+
+    await service.executeCommand(LSP_COMMANDS.unpin, [
+      { uri: uri("a.ts"), id: 0 },
+    ]);
+    expect(await service.getDiagnostics(uri("a.ts"))).toEqual([]);
+  });
+
+  it("reports broken pins with their severity", async () => {
+    const { root, uri, service } = setupWorkspace(makeTempDir());
+    await service.pin({
+      commentUri: uri("a.ts"),
+      commentRange: range(0, 15),
+      codeUri: uri("b.ts"),
+      codeRange: range(1, 12),
+      severity: "warning",
+    });
+    fs.writeFileSync(path.join(root, "b.ts"), "\nconst b = 3;\n");
+    const [diagnostic] = await service.getDiagnostics(uri("a.ts"));
+    expect(diagnostic.severity).toBe(DiagnosticSeverity.Warning);
+
+    await service.executeCommand(LSP_COMMANDS.setSeverity, [
+      { uri: uri("a.ts"), id: 0, severity: "hint" },
+    ]);
+    service.invalidate();
+    const [changed] = await service.getDiagnostics(uri("a.ts"));
+    expect(changed.severity).toBe(DiagnosticSeverity.Hint);
+    await expect(
+      service.executeCommand(LSP_COMMANDS.setSeverity, [
+        { uri: uri("a.ts"), id: 0, severity: "fatal" },
+      ])
+    ).rejects.toThrow("Unknown severity fatal");
+    await expect(
+      service.executeCommand(LSP_COMMANDS.setSeverity, [
+        { uri: uri("a.ts"), id: "0", severity: "hint" },
+      ])
+    ).rejects.toThrow(`Invalid arguments for ${LSP_COMMANDS.setSeverity}`);
+  });
+
+  it("does not overwrite schema files changed outside the server", async () => {
+    const { root, uri, service } = setupWorkspace(makeTempDir());
+    await service.pin({
+      commentUri: uri("a.ts"),
+      commentRange: range(0, 15),
+      codeUri: uri("b.ts"),
+      codeRange: range(1, 12),
+    });
+    // e.g. the command line moved the pin in the meantime
+    const schemaPath = path.join(root, ".code-couplet", "a.ts.json");
+    const schema = JSON.parse(fs.readFileSync(schemaPath).toString());
+    schema.comments[0].rationale = "from the command line";
+    fs.writeFileSync(schemaPath, JSON.stringify(schema, null, 2));
+
+    await expect(
+      service.executeCommand(LSP_COMMANDS.setSeverity, [
+        { uri: uri("a.ts"), id: 0, severity: "hint" },
+      ])
+    ).rejects.toThrow("changed outside the editor");
+    // The stale cache was dropped, so the next command sees the new file
+    await service.executeCommand(LSP_COMMANDS.setSeverity, [
+      { uri: uri("a.ts"), id: 0, severity: "hint" },
+    ]);
+    const [saved] = JSON.parse(fs.readFileSync(schemaPath).toString()).comments;
+    expect(saved.rationale).toBe("from the command line");
+    expect(saved.severity).toBe("hint");
+  });
+
+  it("sets the rationale and tags of a pin and validates only some tags", async () => {
+    const { root, uri, service } = setupWorkspace(makeTempDir());
+    await service.pin({
+      commentUri: uri("a.ts"),
+      commentRange: range(0, 15),
+      codeUri: uri("b.ts"),
+      codeRange: range(1, 12),
+      tags: ["protocol"],
+    });
+    await service.executeCommand(LSP_COMMANDS.setDetails, [
+      { uri: uri("a.ts"), id: 0, rationale: "b must equal a + 1" },
+    ]);
+    const hover = await service.getHover(uri("a.ts"), {
+      line: 0,
+      character: 3,
+    });
+    const { value } = hover!.contents as { value: string };
+    expect(value).toContain("**Rationale**: b must equal a + 1");
+    expect(value).toContain("**Tags**: protocol");
+
+    fs.writeFileSync(path.join(root, "b.ts"), "\nconst b = 3;\n");
+    expect(await service.getDiagnostics(uri("a.ts"))).toHaveLength(1);
+    const filtered = new PinLanguageService(() => undefined, [], {
+      tags: ["ui"],
+    });
+    expect(await filtered.getDiagnostics(uri("a.ts"))).toEqual([]);
+  });
+
+  it("offers and applies move fixes", async () => {
+    const { root, uri, service } = setupWorkspace(makeTempDir());
+    await service.pin({
+      commentUri: uri("a.ts"),
+      commentRange: range(0, 15),
+      codeUri: uri("a.ts"),
+      codeRange: range(1, 12),
+    });
+    fs.writeFileSync(
+      path.join(root, "a.ts"),
+      "\n// keep in sync\nconst a = 1;\n"
+    );
+    const diagnostics = await service.getDiagnostics(uri("a.ts"));
+    const [action] = service.getCodeActions(uri("a.ts"), diagnostics);
+    expect(action.title).toBe(
+      "New location found: Move comment and code pin data"
+    );
+    await service.executeCommand(
+      action.command!.command,
+      action.command!.arguments
+    );
+    expect(await service.getDiagnostics(uri("a.ts"))).toEqual([]);
+
+    // The fixed schema was saved, so a fresh server agrees
+    service.invalidate();
+    expect(await service.getDiagnostics(uri("a.ts"))).toEqual([]);
+  });
+});
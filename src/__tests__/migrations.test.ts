@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { migrateToLatestFormat } from "../migrations";
+import { decodeSchema, migrateSchemaFiles, serializeSchema } from "../schema";
+import { FileV1 } from "../types";
+import { range, useTempDirs } from "./helpers";
+
+function v1Schema(): FileV1 {
+  return {
+    version: 1,
+    configuration: { lineComment: "//" },
+    comments: [3, 7].map((id) => ({
+      commentValue: "// x",
+      commentRange: range(id, 0, 4),
+      codeRelativePath: "",
+      codeRange: range(id + 1, 0, 4),
+      codeValue: "x();",
+      id,
+    })),
+  };
+}
+
+const sourceUri = URI.file("/repo/a.ts");
+
+describe("migrations", () => {
+  const makeTempDir = useTempDirs("migrate");
+
+  it("upgrades version 1 to the current version", () => {
+    const schema = migrateToLatestFormat(v1Schema());
+    expect(schema.version).toBe(3);
+    expect(schema.nextId).toBe(8);
+    // Older files never chose their comparison mode, so they use the repository's
+    expect(schema.configuration).toEqual({
+      lineComment: "//",
+      normalization: null,
+    });
+    expect(schema.comments.map((c) => c.metadata)).toEqual([{}, {}]);
+    expect(schema.comments.map((c) => c.tags)).toEqual([[], []]);
+    // Older pins have no author or times
+    expect(schema.comments[0].created).toBeUndefined();
+    expect(schema.comments.map((c) => c.id)).toEqual([3, 7]);
+  });
+
+  it("decodes version 1 files and round trips the migrated schema", () => {
+    const schema = decodeSchema(JSON.stringify(v1Schema()), sourceUri);
+    expect(schema.version).toBe(3);
+    expect(decodeSchema(serializeSchema(schema), sourceUri)).toEqual(schema);
+  });
+
+  it("round trips current schemas unchanged", () => {
+    const schema = migrateToLatestFormat(v1Schema());
+    schema.comments[0].metadata = { reason: "protocol constant" };
+    schema.configuration.normalization = "whitespace";
+    schema.comments[1] = {
+      ...schema.comments[1],
+      author: "Ada <ada@example.com>",
+      created: "2024-01-02T03:04:05.000Z",
+      updated: "2024-01-02T03:04:05.000Z",
+      rationale: "the reader assumes this order",
+      tags: ["protocol"],
+    };
+    expect(decodeSchema(serializeSchema(schema), sourceUri)).toEqual(schema);
+  });
+
+  it("rejects unknown versions", () => {
+    const file = { ...v1Schema(), version: 99 };
+    expect(() => decodeSchema(JSON.stringify(file), sourceUri)).toThrow();
+  });
+
+  it("rewrites outdated schema files in the save root", async () => {
+    const root = makeTempDir();
+    const schemaFolder = path.join(root, ".code-couplet");
+    fs.mkdirSync(schemaFolder);
+    fs.writeFileSync(
+      path.join(schemaFolder, "a.ts.json"),
+      JSON.stringify(v1Schema())
+    );
+    fs.writeFileSync(
+      path.join(schemaFolder, "b.ts.json"),
+      serializeSchema(migrateToLatestFormat(v1Schema()))
+    );
+    const saveRoot = URI.file(root);
+
+    const dryRun = await migrateSchemaFiles(saveRoot, { dryRun: true });
+    expect(dryRun.map((m) => m.fromVersion)).toEqual([1]);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(schemaFolder, "a.ts.json"), "utf8"))
+        .version
+    ).toBe(1);
+
+    const migrated = await migrateSchemaFiles(saveRoot);
+    expect(migrated.map((m) => path.basename(m.schemaUri.fsPath))).toEqual([
+      "a.ts.json",
+    ]);
+    expect(
+      fs.readFileSync(path.join(schemaFolder, "a.ts.json"), "utf8")
+    ).toEqual(serializeSchema(migrateToLatestFormat(v1Schema())));
+    expect(await migrateSchemaFiles(saveRoot)).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { loadRepoConfig } from "../config";
+import { emptySchema, Normalization } from "../types";
+import { normalizeText } from "../normalization";
+import { ErrorType, validate } from "../validation";
+import { makeDoc, pin, range, useTempDirs } from "./helpers";
+
+async function errorTypes(
+  text: string,
+  params: { schemaMode?: Normalization; repoMode?: Normalization } = {}
+) {
+  const schema = emptySchema();
+  schema.configuration.lineComment = "//";
+  schema.configuration.normalization = params.schemaMode || null;
+  schema.comments.push(pin());
+  const errors = await validate(makeDoc(text), schema, {
+    normalization: params.repoMode,
+  });
+  return errors.map((e) => ErrorType[e.errorType]);
+}
+
+describe("normalization", () => {
+  const makeTempDir = useTempDirs("config");
+
+  it("normalizes text in each mode", () => {
+    const text = "  //  a  b \n\tc";
+    expect(normalizeText(text, "exact", "//")).toBe(text);
+    expect(normalizeText(text, "trim", "//")).toBe("//  a  b\nc");
+    expect(normalizeText(text, "whitespace", "//")).toBe("// a b c");
+    expect(normalizeText(text, "comment", "//")).toBe("a  b\nc");
+    expect(normalizeText(text, "comment", null)).toBe("//  a  b\nc");
+  });
+
+  it("ignores reformatting in the chosen mode", async () => {
+    const reindented = "// keep sorted\n  sort(items);\n";
+    expect(await errorTypes(reindented)).toEqual(["CodeMismatch"]);
+    expect(await errorTypes(reindented, { schemaMode: "trim" })).toEqual([]);
+    expect(await errorTypes("//keep sorted\nsort(items);\n")).toEqual([
+      "CommentMismatch",
+    ]);
+    expect(
+      await errorTypes("//keep sorted\nsort(items);\n", {
+        schemaMode: "comment",
+      })
+    ).toEqual([]);
+  });
+
+  it("strips the built-in comment marker of the language", async () => {
+    const schema = emptySchema();
+    schema.configuration.normalization = "comment";
+    schema.comments.push(pin());
+    expect(
+      await validate(makeDoc("//keep sorted\nsort(items);\n"), schema)
+    ).toEqual([]);
+  });
+
+  it("prefers the mode of the pin, then the schema, then the repository", async () => {
+    const reindented = "// keep sorted\n  sort(items);\n";
+    expect(
+      await errorTypes(reindented, { schemaMode: "exact", repoMode: "trim" })
+    ).toEqual(["CodeMismatch"]);
+    expect(await errorTypes(reindented, { repoMode: "trim" })).toEqual([]);
+    const schema = emptySchema();
+    schema.comments.push(pin({ normalization: "whitespace" }));
+    expect(
+      await validate(makeDoc(reindented), schema, { normalization: "exact" })
+    ).toEqual([]);
+  });
+
+  it("finds moved text which only differs in the chosen mode", async () => {
+    const schema = emptySchema();
+    schema.configuration.normalization = "whitespace";
+    schema.comments.push(
+      pin({ codeRange: range(1, 0, 11), codeValue: "sort(a, b);" })
+    );
+    const doc = makeDoc(
+      "// keep sorted\nother();\nif (x) {\n    sort(a,   b);\n}\n"
+    );
+    const [error] = await validate(doc, schema, { fuzzyThreshold: 1 });
+    expect(error.errorType).toBe(ErrorType.CodeMismatch);
+    expect(error.moveFixConfidence).toBe(1);
+    expect(error.moveFix!.codeRange).toEqual(range(3, 0, 17));
+    expect(error.moveFix!.codeValue).toBe("    sort(a,   b);");
+  });
+
+  it("reads the comparison mode of the repository", async () => {
+    const root = makeTempDir();
+    expect(await loadRepoConfig(URI.file(root))).toEqual({});
+    fs.writeFileSync(
+      path.join(root, ".code-couplet.json"),
+      JSON.stringify({ normalization: "trim" })
+    );
+    expect(await loadRepoConfig(URI.file(root))).toEqual({
+      normalization: "trim",
+    });
+    fs.writeFileSync(
+      path.join(root, ".code-couplet.json"),
+      JSON.stringify({ normalization: "loose" })
+    );
+    await expect(loadRepoConfig(URI.file(root))).rejects.toThrow(
+      "Could not decode config"
+    );
+  });
+});
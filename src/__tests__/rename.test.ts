@@ -0,0 +1,147 @@
+import * as fs from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { renamedUri, renameInSchemas, renameSourceFiles } from "../rename";
+import { buildSchemaPath, loadSchema, saveSchema } from "../schema";
+import { CurrentComment, CurrentFile, emptySchema } from "../types";
+import { pin, range, useTempDirs } from "./helpers";
+
+const pinTo = (id: number, codeRelativePath: string) =>
+  pin({ id, codeRelativePath });
+
+function schemaWith(...comments: CurrentComment[]): CurrentFile {
+  const schema = emptySchema();
+  schema.comments.push(...comments);
+  return schema;
+}
+
+describe("rename", () => {
+  const makeTempDir = useTempDirs("rename");
+
+  it("renames files and files in renamed folders", () => {
+    const from = URI.file("/repo/src/util");
+    const to = URI.file("/repo/lib");
+    expect(renamedUri(URI.file("/repo/src/util/a.ts"), from, to)?.path).toBe(
+      "/repo/lib/a.ts"
+    );
+    expect(renamedUri(from, from, to)?.path).toBe("/repo/lib");
+    expect(renamedUri(URI.file("/repo/src/utils.ts"), from, to)).toBeNull();
+  });
+
+  it("moves schemas and rewrites code paths into the renamed file", () => {
+    const a = URI.file("/repo/src/a.ts").toString();
+    const b = URI.file("/repo/src/b.ts").toString();
+    const schemas = new Map([
+      [
+        a,
+        schemaWith(pinTo(0, ""), {
+          ...pinTo(1, "../b.ts"),
+          additionalTargets: [
+            {
+              codeRelativePath: "",
+              codeRange: range(2, 0, 4),
+              codeValue: "c();",
+            },
+          ],
+        }),
+      ],
+      [b, schemaWith(pinTo(0, "../a.ts"), pinTo(1, ""))],
+    ]);
+    const { moved, changed } = renameInSchemas(
+      schemas,
+      URI.file("/repo/src/a.ts"),
+      URI.file("/repo/src/lib/c.ts")
+    );
+    const c = URI.file("/repo/src/lib/c.ts").toString();
+    expect(moved.map((m) => [m.from.toString(), m.to.toString()])).toEqual([
+      [a, c],
+    ]);
+    expect(changed.map((uri) => uri.toString())).toEqual([c, b]);
+    expect([...schemas.keys()]).toEqual([c, b]);
+    const [self, other] = schemas.get(c)!.comments;
+    expect(self.codeRelativePath).toBe("");
+    expect(other.codeRelativePath).toBe("../../b.ts");
+    expect(other.additionalTargets![0].codeRelativePath).toBe("");
+    expect(
+      schemas.get(b)!.comments.map((comment) => comment.codeRelativePath)
+    ).toEqual(["../lib/c.ts", ""]);
+  });
+
+  it("refuses to replace a file which has a schema", () => {
+    const schemas = new Map([
+      [URI.file("/repo/a.ts").toString(), schemaWith(pinTo(0, ""))],
+      [URI.file("/repo/b.ts").toString(), schemaWith(pinTo(0, ""))],
+    ]);
+    expect(() =>
+      renameInSchemas(schemas, URI.file("/repo/a.ts"), URI.file("/repo/b.ts"))
+    ).toThrow("/repo/b.ts already has a schema");
+  });
+
+  it("updates schema files for renames made outside the editor", async () => {
+    const root = makeTempDir();
+    fs.mkdirSync(path.join(root, "src"));
+    fs.writeFileSync(
+      path.join(root, "src", "a.ts"),
+      "// keep sorted\nsort(items);\n"
+    );
+    fs.writeFileSync(path.join(root, "b.ts"), "// keep sorted\nsort(items);\n");
+    const saveRoot = URI.file(root);
+    const uri = (...parts: string[]) => URI.file(path.join(root, ...parts));
+    await saveSchema(saveRoot, uri("src", "a.ts"), schemaWith(pinTo(0, "")));
+    await saveSchema(
+      saveRoot,
+      uri("b.ts"),
+      schemaWith(pinTo(0, "../src/a.ts"))
+    );
+
+    // Dry run leaves everything in place
+    fs.renameSync(path.join(root, "src"), path.join(root, "lib"));
+    await renameSourceFiles(saveRoot, uri("src"), uri("lib"), {
+      dryRun: true,
+    });
+    expect(
+      fs.existsSync(buildSchemaPath(saveRoot, uri("src", "a.ts")).fsPath)
+    ).toBe(true);
+
+    await renameSourceFiles(saveRoot, uri("src"), uri("lib"));
+    expect(
+      fs.existsSync(buildSchemaPath(saveRoot, uri("src", "a.ts")).fsPath)
+    ).toBe(false);
+    expect(
+      (await loadSchema(saveRoot, uri("lib", "a.ts")))!.schema.comments
+    ).toHaveLength(1);
+    expect(
+      (await loadSchema(saveRoot, uri("b.ts")))!.schema.comments[0]
+        .codeRelativePath
+    ).toBe("../lib/a.ts");
+  });
+
+  it("renames the source only when its schema has no conflicts", async () => {
+    const root = makeTempDir();
+    fs.writeFileSync(path.join(root, "a.ts"), "// keep sorted\nsort(items);\n");
+    const saveRoot = URI.file(root);
+    const uri = (name: string) => URI.file(path.join(root, name));
+    await saveSchema(saveRoot, uri("a.ts"), schemaWith(pinTo(0, "")));
+    // The schema of a deleted file which was not unpinned
+    await saveSchema(saveRoot, uri("c.ts"), schemaWith(pinTo(0, "")));
+
+    await expect(
+      renameSourceFiles(saveRoot, uri("a.ts"), uri("c.ts"), {
+        moveSource: true,
+      })
+    ).rejects.toThrow("already has a schema");
+    expect(fs.existsSync(path.join(root, "a.ts"))).toBe(true);
+
+    await renameSourceFiles(saveRoot, uri("a.ts"), uri("b.ts"), {
+      moveSource: true,
+    });
+    expect(fs.existsSync(path.join(root, "b.ts"))).toBe(true);
+    expect(fs.existsSync(buildSchemaPath(saveRoot, uri("a.ts")).fsPath)).toBe(
+      false
+    );
+    expect(
+      (await loadSchema(saveRoot, uri("b.ts")))!.schema.comments
+    ).toHaveLength(1);
+  });
+});
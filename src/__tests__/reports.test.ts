@@ -0,0 +1,143 @@
+import { URI } from "vscode-uri";
+
+import { CheckResult } from "../check";
+import { toJsonReport, toJUnitReport, toSarifReport } from "../reports";
+import { emptySchema } from "../types";
+import { ErrorType } from "../validation";
+import { pin, range } from "./helpers";
+
+const saveRoot = URI.file("/repo");
+const sourceUri = URI.file("/repo/src/a.ts");
+
+function makeResults(): CheckResult[] {
+  const schema = emptySchema();
+  schema.comments.push(
+    pin({
+      commentValue: "// a <b>",
+      commentRange: range(0, 0, 5),
+      codeRange: range(1, 0, 5),
+      codeValue: "const a = 1;",
+    }),
+    pin({
+      commentValue: "// ok",
+      commentRange: range(4, 0, 5),
+      codeRange: range(5, 0, 5),
+      codeValue: "const b = 2;",
+      id: 1,
+    })
+  );
+  return [
+    {
+      saveRoot,
+      files: [
+        {
+          sourceUri,
+          schema,
+          checkedPins: schema.comments,
+          errors: [
+            {
+              commentId: 0,
+              commentUriString: sourceUri.toString(),
+              commentRange: range(0, 0, 5),
+              codeLocation: {
+                uriString: URI.file("/repo/src/b.ts").toString(),
+                range: range(1, 0, 5),
+              },
+              targetIndex: 0,
+              targetCount: 1,
+              errorType: ErrorType.CodeMismatch,
+              severity: "error",
+              actual: { comment: "// a <b>", code: "const a = 2;" },
+              expected: { comment: "// a <b>", code: "const a = 1;" },
+            },
+          ],
+        },
+      ],
+      failures: [],
+    },
+  ];
+}
+
+describe("reports", () => {
+  it("writes relative paths and error type names to json", () => {
+    const report = JSON.parse(toJsonReport(makeResults()));
+    const file = report.results[0].files[0];
+    expect(file.path).toBe("src/a.ts");
+    expect(file.pinCount).toBe(2);
+    expect(file.errors[0].errorType).toBe("CodeMismatch");
+    expect(file.errors[0].code.path).toBe("src/b.ts");
+  });
+
+  it("writes sarif results with comment and code locations", () => {
+    const report = JSON.parse(toSarifReport(makeResults()));
+    expect(report.version).toBe("2.1.0");
+    const run = report.runs[0];
+    const [result] = run.results;
+    expect(run.tool.driver.rules[result.ruleIndex].id).toBe("CodeMismatch");
+    const location = result.locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toBe("src/a.ts");
+    expect(location.region).toEqual({
+      startLine: 1,
+      startColumn: 1,
+      endLine: 1,
+      endColumn: 6,
+    });
+    expect(
+      result.relatedLocations[0].physicalLocation.artifactLocation.uri
+    ).toBe("src/b.ts");
+  });
+
+  it("writes schemas that could not be loaded to sarif", () => {
+    const results = makeResults();
+    results[0].failures.push({
+      schemaUri: URI.file("/repo/.code-couplet/src/a.ts.json"),
+      message: "Could not decode schema at /repo/src/a.ts",
+    });
+    const [invocation] = JSON.parse(toSarifReport(results)).runs[0].invocations;
+    expect(invocation.executionSuccessful).toBe(false);
+    const [notification] = invocation.toolExecutionNotifications;
+    expect(notification.level).toBe("error");
+    expect(notification.message.text).toBe(
+      "Could not decode schema at /repo/src/a.ts"
+    );
+    expect(
+      notification.locations[0].physicalLocation.artifactLocation.uri
+    ).toBe(".code-couplet/src/a.ts.json");
+  });
+
+  it("writes one junit test case per pin", () => {
+    const report = toJUnitReport(makeResults());
+    expect(report).toContain('tests="2" failures="1"');
+    expect(report.match(/<testcase /g)).toHaveLength(2);
+    expect(report).toContain('<failure type="CodeMismatch"');
+    expect(report).not.toContain("<b>");
+  });
+
+  it("only counts the checked pins", () => {
+    const results = makeResults();
+    // e.g. only the first pin has the tags given to check
+    results[0].files[0].checkedPins = results[0].files[0].schema.comments.slice(
+      0,
+      1
+    );
+    const file = JSON.parse(toJsonReport(results)).results[0].files[0];
+    expect(file.pinCount).toBe(1);
+    const report = toJUnitReport(results);
+    expect(report).toContain('tests="1" failures="1"');
+    expect(report.match(/<testcase /g)).toHaveLength(1);
+  });
+
+  it("reports pins below error severity without failing", () => {
+    const results = makeResults();
+    results[0].files[0].errors[0].severity = "info";
+    const [result] = JSON.parse(toSarifReport(results)).runs[0].results;
+    expect(result.level).toBe("note");
+    const report = toJUnitReport(results);
+    expect(report).toContain('tests="2" failures="0"');
+    expect(report).toContain("<system-out>info: Code does not match");
+    // Like the exit code of check with --fail-on info
+    const failing = toJUnitReport(results, "info");
+    expect(failing).toContain('tests="2" failures="1"');
+    expect(failing).toContain('<failure type="CodeMismatch"');
+  });
+});
@@ -1,7 +1,20 @@
-import { validateSchema } from "../schema";
+import { URI } from "vscode-uri";
+
+import { decodeSchema, serializeSchema } from "../schema";
+import { emptySchema } from "../types";
 
 describe("schema", () => {
   it("loads empty list", () => {
-    validateSchema("[]");
+    const schema = decodeSchema(
+      serializeSchema(emptySchema()),
+      URI.file("/a.ts")
+    );
+    expect(schema.comments).toEqual([]);
+  });
+
+  it("rejects invalid schemas", () => {
+    expect(() => decodeSchema("[]", URI.file("/a.ts"))).toThrow(
+      "Could not decode schema at /a.ts"
+    );
   });
 });
@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+
+import { LSP_COMMANDS, PinLanguageService } from "../lsp";
+import { hashText, storeHashes } from "../storage";
+import { emptySchema } from "../types";
+import { describeError, ErrorType, validate } from "../validation";
+import { makeDoc, pin, useTempDirs } from "./helpers";
+
+describe("storage", () => {
+  const makeTempDir = useTempDirs("storage");
+
+  it("replaces pinned text with hashes and previews", () => {
+    const schema = emptySchema();
+    schema.comments.push(pin());
+    const [stored] = storeHashes(schema, { previewLength: 4 }).comments;
+    expect(stored.commentValue).toBe("// k…");
+    expect(stored.codeValue).toBe("sort…");
+    expect(stored.codeHash).toEqual(hashText("sort(items);", "exact", null));
+    expect(stored.codeHash!.length).toBe(12);
+    // The original of hashed text is unknown, so it is kept as it is
+    expect(storeHashes({ ...schema, comments: [stored] }).comments).toEqual([
+      stored,
+    ]);
+    expect(schema.comments[0].codeValue).toBe("sort(items);");
+  });
+
+  it("validates hashes in the mode they were made with", async () => {
+    const schema = emptySchema();
+    schema.comments.push(pin());
+    const hashed = storeHashes(schema, { normalization: "trim" });
+    expect(
+      await validate(makeDoc("// keep sorted\n  sort(items);\n"), hashed)
+    ).toEqual([]);
+
+    // Moved text can't be found from a hash
+    const [error] = await validate(
+      makeDoc("// keep sorted\nreverse(items);\nsort(items);\n"),
+      hashed
+    );
+    expect(error.errorType).toBe(ErrorType.CodeMismatch);
+    expect(error.moveFix).toBeUndefined();
+    expect(describeError(error)).toBe(
+      `Code does not match schema. Expected: (12 characters, hash ${hashed.comments[0].codeHash!.sha256.slice(
+        0,
+        8
+      )}), got: "reverse(item"`
+    );
+  });
+
+  it("saves hashes when the repository stores hashes only", async () => {
+    const root = makeTempDir();
+    fs.mkdirSync(path.join(root, ".code-couplet"));
+    fs.writeFileSync(
+      path.join(root, ".code-couplet.json"),
+      JSON.stringify({ storage: "hash", previewLength: 20 })
+    );
+    fs.writeFileSync(path.join(root, "a.ts"), "// keep sorted\nsort(items);\n");
+    const uri = URI.file(path.join(root, "a.ts")).toString();
+    const openDocuments = new Map<string, TextDocument>();
+    const service = new PinLanguageService(
+      (uri) => openDocuments.get(uri),
+      [URI.file(root)]
+    );
+    await service.executeCommand(LSP_COMMANDS.pin, [
+      {
+        commentUri: uri,
+        commentRange: {
+          start: { line: 0, character: 0 },
+          end: { line: 0, character: 14 },
+        },
+        codeUri: uri,
+        codeRange: {
+          start: { line: 1, character: 0 },
+          end: { line: 1, character: 12 },
+        },
+      },
+    ]);
+    const stored = fs
+      .readFileSync(path.join(root, ".code-couplet", "a.ts.json"))
+      .toString();
+    expect(stored).toContain('"sha256"');
+    expect(await service.getDiagnostics(uri)).toEqual([]);
+
+    // The original text is unknown, so there is no fix to change the code back,
+    // but the current code can be accepted and hashed instead
+    openDocuments.set(
+      uri,
+      TextDocument.create(
+        uri,
+        "typescript",
+        1,
+        "// keep sorted\nsort(other);\n"
+      )
+    );
+    const diagnostics = await service.getDiagnostics(uri);
+    expect(diagnostics).toHaveLength(1);
+    const actions = service.getCodeActions(uri, diagnostics);
+    expect(actions.map((a) => a.title)).toEqual(["Accept current code"]);
+    await service.executeCommand(
+      actions[0].command!.command,
+      actions[0].command!.arguments
+    );
+    expect(await service.getDiagnostics(uri)).toEqual([]);
+    const [accepted] = JSON.parse(
+      fs.readFileSync(path.join(root, ".code-couplet", "a.ts.json")).toString()
+    ).comments;
+    expect(accepted.codeHash).toEqual(hashText("sort(other);", "exact", "//"));
+    expect(accepted.codeValue).toBe("sort(other);");
+  });
+});
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { CommentSyntax } from "../comments";
+import { loadSchema } from "../schema";
+import { listSourceFiles, suggestPins, suggestPinsForFile } from "../suggest";
+import { emptySchema } from "../types";
+import { useTempDirs } from "./helpers";
+
+const cSyntax: CommentSyntax = {
+  lineComment: "//",
+  blockComment: ["/*", "*/"],
+};
+
+const text = [
+  "// License header",
+  "",
+  "/**",
+  " * Adds.",
+  " */",
+  "function add(a, b) {",
+  "  return a + b;",
+  "}",
+  "",
+  "const x = 1; // trailing",
+  "// keep sorted",
+  "sort(items);",
+].join("\n");
+
+describe("suggest", () => {
+  const makeTempDir = useTempDirs("suggest");
+
+  it("suggests comment blocks directly followed by code", () => {
+    const suggestions = suggestPins(text, null, cSyntax);
+    expect(suggestions).toEqual([
+      {
+        commentRange: {
+          start: { line: 2, char: 0 },
+          end: { line: 4, char: 3 },
+        },
+        commentValue: "/**\n * Adds.\n */",
+        codeRange: { start: { line: 5, char: 0 }, end: { line: 7, char: 1 } },
+        codeValue: "function add(a, b) {\n  return a + b;\n}",
+      },
+      {
+        commentRange: {
+          start: { line: 10, char: 0 },
+          end: { line: 10, char: 14 },
+        },
+        commentValue: "// keep sorted",
+        codeRange: {
+          start: { line: 11, char: 0 },
+          end: { line: 11, char: 12 },
+        },
+        codeValue: "sort(items);",
+      },
+    ]);
+  });
+
+  it("skips comments which are already pinned", () => {
+    const schema = emptySchema();
+    const [first] = suggestPins(text, null, cSyntax);
+    schema.comments.push({
+      ...first,
+      commentRange: { start: { line: 3, char: 0 }, end: { line: 3, char: 8 } },
+      codeRelativePath: "",
+      id: 0,
+      metadata: {},
+      tags: [],
+    });
+    expect(
+      suggestPins(text, schema, cSyntax).map((s) => s.commentValue)
+    ).toEqual(["// keep sorted"]);
+  });
+
+  it("keeps the line breaks of the text in values", () => {
+    const [suggestion] = suggestPins("// a\r\n// b\r\nf();\r\n", null, cSyntax);
+    expect(suggestion.commentValue).toBe("// a\r\n// b");
+    expect(suggestion.codeRange.end).toEqual({ line: 2, char: 4 });
+  });
+
+  it("pins the suggestions of files on disk in one save", async () => {
+    const root = makeTempDir();
+    fs.mkdirSync(path.join(root, "node_modules"));
+    fs.writeFileSync(path.join(root, "node_modules", "dep.js"), "// a\nb();\n");
+    fs.writeFileSync(path.join(root, "notes.txt"), "// a\nb();\n");
+    fs.writeFileSync(path.join(root, "a.py"), "# retries\nRETRIES = 3\n");
+    const saveRoot = URI.file(root);
+    const [sourceUri] = await listSourceFiles(saveRoot);
+    expect(sourceUri.path).toBe(URI.file(path.join(root, "a.py")).path);
+
+    expect(await suggestPinsForFile(saveRoot, sourceUri)).toHaveLength(1);
+    expect(await loadSchema(saveRoot, sourceUri)).toBeNull();
+    await suggestPinsForFile(saveRoot, sourceUri, { apply: true });
+    const { schema } = (await loadSchema(saveRoot, sourceUri))!;
+    expect(schema.configuration.lineComment).toBe("#");
+    expect(schema.comments.map((c) => [c.commentValue, c.codeValue])).toEqual([
+      ["# retries", "RETRIES = 3"],
+    ]);
+    expect(await suggestPinsForFile(saveRoot, sourceUri)).toEqual([]);
+  });
+});
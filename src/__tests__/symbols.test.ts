@@ -0,0 +1,137 @@
+import { URI } from "vscode-uri";
+
+import { getCodeTargets } from "../schema";
+import {
+  findSymbolPathAt,
+  formatSymbolPath,
+  isSymbolNameMissing,
+  resolveSymbolPath,
+  SymbolNode,
+} from "../symbols";
+import { CurrentComment, emptySchema } from "../types";
+import {
+  describeError,
+  ErrorType,
+  updateSymbolRanges,
+  validate,
+} from "../validation";
+import { lineRange as range, makeDoc, pin } from "./helpers";
+
+const text = [
+  "// guards the cache",
+  "",
+  "class Model {",
+  "  guard() {",
+  "    return 1;",
+  "  }",
+  "}",
+].join("\n");
+
+// The guard method, with two lines inserted above it since it was pinned
+const guard = "  guard() {\n    return 1;\n  }";
+const symbols: SymbolNode[] = [
+  {
+    name: "Model",
+    kind: "class",
+    range: range(2, 6, 1),
+    children: [
+      { name: "guard", kind: "method", range: range(3, 5, 3), children: [] },
+    ],
+  },
+];
+
+function symbolPin(): CurrentComment {
+  return pin({
+    commentValue: "// guards the cache",
+    commentRange: range(0, 0, 19),
+    codeRange: range(1, 3, 3),
+    codeValue: guard,
+    codeSymbol: [
+      { kind: "class", name: "Model" },
+      { kind: "method", name: "guard" },
+    ],
+  });
+}
+
+async function validatePin(
+  comment: CurrentComment,
+  loaded: SymbolNode[] | null
+) {
+  const schema = emptySchema();
+  schema.comments.push(comment);
+  return validate(makeDoc(text, "file:///a.ts"), schema, {
+    fuzzyThreshold: 1,
+    loadSymbols: async () => loaded,
+  });
+}
+
+describe("symbols", () => {
+  it("finds the innermost symbol at a position", () => {
+    const found = findSymbolPathAt(symbols, { line: 4, char: 4 });
+    expect(formatSymbolPath(found!.path)).toBe("class Model > method guard");
+    expect(found!.range).toEqual(range(3, 5, 3));
+    expect(findSymbolPathAt(symbols, { line: 0, char: 0 })).toBeNull();
+  });
+
+  it("resolves symbols whose kind changed but not their name", () => {
+    const path = [
+      { kind: "class", name: "Model" },
+      { kind: "function", name: "guard" },
+    ];
+    expect(resolveSymbolPath(symbols, path)).toEqual(range(3, 5, 3));
+    expect(
+      resolveSymbolPath(symbols, [{ kind: "class", name: "View" }])
+    ).toBeNull();
+  });
+
+  it("validates code at the range of its symbol", async () => {
+    expect(await validatePin(symbolPin(), symbols)).toEqual([]);
+    expect(getCodeTargets(symbolPin())[0].codeSymbol).toHaveLength(2);
+  });
+
+  it("reports missing symbols as their own error type", async () => {
+    const [error] = await validatePin(symbolPin(), [
+      { ...symbols[0], children: [] },
+    ]);
+    expect(error.errorType).toBe(ErrorType.SymbolNotFound);
+    expect(error.moveFix).toBeUndefined();
+    expect(describeError(error)).toBe(
+      "Symbol of code not found: class Model > method guard"
+    );
+  });
+
+  it("falls back to the stored range when symbols can't be loaded", async () => {
+    const [error] = await validatePin(symbolPin(), null);
+    expect(error.errorType).toBe(ErrorType.CodeMismatch);
+  });
+
+  it("reports symbols whose name is gone when symbols can't be loaded", async () => {
+    const renamed = symbolPin();
+    renamed.codeSymbol = [{ kind: "method", name: "check" }];
+    const [error] = await validatePin(renamed, null);
+    expect(error.errorType).toBe(ErrorType.SymbolNotFound);
+    expect(isSymbolNameMissing(text, [{ kind: "method", name: "guar" }])).toBe(
+      true
+    );
+    expect(
+      isSymbolNameMissing(text, [{ kind: "function", name: "<function>" }])
+    ).toBe(false);
+  });
+
+  it("moves the stored code range to the range of its symbol", async () => {
+    const updated = await updateSymbolRanges(
+      URI.parse("file:///a.ts"),
+      symbolPin(),
+      async () => symbols
+    );
+    expect(updated!.codeRange).toEqual(range(3, 5, 3));
+    expect(updated!.codeSymbol).toEqual(symbolPin().codeSymbol);
+    expect(
+      await updateSymbolRanges(
+        URI.parse("file:///a.ts"),
+        updated!,
+        async () => symbols
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+
+import { applyMoveFixes } from "../fix";
+import { addPinToSchema, getCodeTargets, getPinDetails } from "../schema";
+import { CurrentComment, emptySchema } from "../types";
+import {
+  describeError,
+  ErrorType,
+  listAcceptFixes,
+  validate,
+} from "../validation";
+import { makeDoc, pin, range } from "./helpers";
+
+const docs: { [uri: string]: TextDocument } = {
+  "file:///src/a.ts": makeDoc("// sizes match\nwrite(4);\n"),
+  "file:///src/b.ts": makeDoc("\nread(4);\n", "file:///src/b.ts"),
+};
+const loadDocument = async (uri: URI) => docs[uri.toString()];
+
+function pinToBoth(): CurrentComment {
+  return pin({
+    commentValue: "// sizes match",
+    codeRange: range(1, 0, 9),
+    codeValue: "write(4);",
+    additionalTargets: [
+      {
+        codeRelativePath: "../b.ts",
+        codeRange: range(0, 0, 8),
+        codeValue: "read(4);",
+      },
+    ],
+  });
+}
+
+describe("validation", () => {
+  it("lists the code targets of a pin", () => {
+    const targets = getCodeTargets(pinToBoth());
+    expect(targets.map((t) => t.codeValue)).toEqual(["write(4);", "read(4);"]);
+  });
+
+  it("reports which code target drifted", async () => {
+    const schema = emptySchema();
+    schema.comments.push(pinToBoth());
+    const errors = await validate(docs["file:///src/a.ts"], schema, {
+      loadDocument,
+    });
+    expect(errors).toHaveLength(1);
+    const [error] = errors;
+    expect(error.errorType).toBe(ErrorType.CodeMismatch);
+    expect(error.targetIndex).toBe(1);
+    expect(error.codeLocation.uriString).toBe("file:///src/b.ts");
+    expect(describeError(error)).toMatch(/^Code target 2 of 2 does not match/);
+    expect(error.moveFix!.additionalTargets![0].codeRange).toEqual(
+      range(1, 0, 8)
+    );
+    expect(error.moveFix!.codeRange).toEqual(range(1, 0, 9));
+  });
+
+  it("does not accept the comment text at the range it moved from", async () => {
+    const schema = emptySchema();
+    const comment = pinToBoth();
+    delete comment.additionalTargets;
+    schema.comments.push(comment);
+    const doc = makeDoc("\n// sizes match\nwrite(4);\n");
+    const [error] = await validate(doc, schema, { loadDocument });
+    expect(error.errorType).toBe(ErrorType.BothMismatch);
+    expect(error.moveFix!.commentRange).toEqual(range(1, 0, 14));
+    expect(listAcceptFixes(error).map((fix) => fix.title)).toEqual([
+      "Accept current code",
+    ]);
+    expect(
+      listAcceptFixes({ ...error, moveFix: undefined }).map((fix) => fix.title)
+    ).toEqual([
+      "Accept current comment and code",
+      "Accept current comment",
+      "Accept current code",
+    ]);
+  });
+
+  it("reports each drifted target once and fixes the pin once", async () => {
+    const schema = emptySchema();
+    const comment = pinToBoth();
+    comment.codeRange = range(2, 0, 9);
+    schema.comments.push(comment);
+    const errors = await validate(docs["file:///src/a.ts"], schema, {
+      loadDocument,
+    });
+    expect(errors.map((e) => e.targetIndex)).toEqual([0, 1]);
+
+    const fixed = applyMoveFixes(schema, errors);
+    expect(fixed.moved).toEqual([0]);
+    expect(fixed.unfixable).toEqual([]);
+    expect(
+      await validate(docs["file:///src/a.ts"], fixed.schema, { loadDocument })
+    ).toEqual([]);
+  });
+
+  it("keeps the severity of a pin unless a new one is given", async () => {
+    const schema = emptySchema();
+    const target = {
+      codeRelativePath: "../b.ts",
+      codeRange: range(1, 0, 8),
+      codeValue: "read(5);",
+    };
+    addPinToSchema(schema, range(0, 0, 14), "// sizes match", target, {
+      severity: "warning",
+    });
+    const { status, previous } = addPinToSchema(
+      schema,
+      range(0, 0, 14),
+      "// sizes match",
+      target
+    );
+    // The pin before the update, which undo restores
+    expect(status).toBe("updated");
+    expect(previous?.severity).toBe("warning");
+    expect(previous).not.toBe(schema.comments[0]);
+    const errors = await validate(docs["file:///src/a.ts"], schema, {
+      loadDocument,
+    });
+    expect(errors.map((e) => e.severity)).toEqual(["warning"]);
+  });
+
+  it("records when and by whom a pin was made and keeps its details", () => {
+    const schema = emptySchema();
+    const target = pinToBoth().additionalTargets![0];
+    const { comment } = addPinToSchema(
+      schema,
+      range(0, 0, 14),
+      "// x",
+      target,
+      {
+        author: "Ada <ada@example.com>",
+        tags: ["wire", "protocol", "wire"],
+        rationale: "  readers depend on it ",
+      }
+    );
+    expect(comment.author).toBe("Ada <ada@example.com>");
+    expect(comment.tags).toEqual(["wire", "protocol"]);
+    expect(comment.rationale).toBe("readers depend on it");
+    expect(comment.updated).toBe(comment.created);
+
+    const updated = addPinToSchema(schema, range(0, 0, 14), "// x", {
+      ...target,
+      codeRange: range(3, 0, 8),
+    }).comment;
+    expect(updated.tags).toEqual(["wire", "protocol"]);
+    expect(updated.created).toBe(comment.created);
+    expect(getPinDetails(updated).map((d) => d.label)).toEqual([
+      "Rationale",
+      "Tags",
+      "Author",
+      "Created",
+      ...(updated.updated !== updated.created ? ["Updated"] : []),
+    ]);
+  });
+
+  it("only validates pins with the given tags", async () => {
+    const schema = emptySchema();
+    schema.comments.push({ ...pinToBoth(), tags: ["io"] });
+    const validateTags = (tags: string[]) =>
+      validate(docs["file:///src/a.ts"], schema, { loadDocument, tags });
+    expect(await validateTags(["io", "ui"])).toHaveLength(1);
+    expect(await validateTags(["ui"])).toEqual([]);
+    expect(await validateTags([])).toHaveLength(1);
+  });
+});
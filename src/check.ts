@@ -0,0 +1,157 @@
+// Headless validation of every schema under a save root.
+// This is what the command line program runs, outside of any editor.
+
+import { URI } from "vscode-uri";
+
+import {
+  buildSchemaPath,
+  findSaveRoot,
+  isAtLeastAsSevere,
+  listSchemaFiles,
+  loadSchema,
+  schemaFileUriToSourceUri,
+} from "./schema";
+import { loadRepoConfig } from "./config";
+import { exists } from "./fsShim";
+import { anchorWithGitHistory } from "./history";
+import { CurrentComment, CurrentFile, PinSeverity } from "./types";
+import { getErrorMessage } from "./utils";
+import {
+  hasAnyTag,
+  loadDocumentFromFs,
+  validate,
+  ValidationError,
+} from "./validation";
+
+export type FileCheckResult = {
+  sourceUri: URI;
+  schema: CurrentFile;
+  errors: ValidationError[];
+  // Pins of the schema which were validated, i.e. only those with one of the checked tags
+  checkedPins: CurrentComment[];
+  // Pins which are broken at their stored ranges but valid at the ranges carried
+  // through git history. They are not included in errors.
+  reanchored?: CurrentComment[];
+};
+
+export type CheckOptions = {
+  // Re-anchor broken pins by following the git history of their files
+  anchor?: "git";
+  // Minimum similarity of approximate matches offered as move fixes
+  fuzzyThreshold?: number;
+  // Only check the pins with at least one of these tags
+  tags?: string[];
+};
+
+export type CheckResult = {
+  saveRoot: URI;
+  files: FileCheckResult[];
+  // Schema files which could not be loaded or validated, with the reason
+  failures: { schemaUri: URI; message: string }[];
+};
+
+/**
+ * Find the distinct save roots for the given paths which actually contain a schema folder.
+ */
+export async function findSaveRootsWithSchemas(paths: URI[]): Promise<URI[]> {
+  const roots = new Map<string, URI>();
+  for (const p of paths) {
+    const root = await findSaveRoot(p);
+    if (!roots.has(root.toString()) && (await exists(buildSchemaPath(root)))) {
+      roots.set(root.toString(), root);
+    }
+  }
+  return [...roots.values()];
+}
+
+/**
+ * Validate one source file against its schema.
+ * Returns null if the file has no schema.
+ */
+export async function checkFile(
+  saveRoot: URI,
+  sourceUri: URI,
+  options: CheckOptions = {}
+): Promise<FileCheckResult | null> {
+  const loaded = await loadSchema(saveRoot, sourceUri);
+  if (loaded == null) {
+    return null;
+  }
+  const { schema } = loaded;
+  const doc = await loadDocumentFromFs(sourceUri);
+  const { normalization } = await loadRepoConfig(saveRoot);
+  const validationOptions = {
+    fuzzyThreshold: options.fuzzyThreshold,
+    tags: options.tags,
+    normalization,
+  };
+  let errors = await validate(doc, schema, validationOptions);
+  const reanchored: CurrentComment[] = [];
+  if (options.anchor === "git" && errors.length > 0) {
+    const brokenIds = new Set(errors.map((error) => error.commentId));
+    const anchored = await anchorWithGitHistory(saveRoot, sourceUri, {
+      ...schema,
+      comments: schema.comments.filter((c) => brokenIds.has(c.id)),
+    });
+    const anchoredErrorIds = new Set(
+      (await validate(doc, anchored, validationOptions)).map(
+        (error) => error.commentId
+      )
+    );
+    for (const comment of anchored.comments) {
+      if (!anchoredErrorIds.has(comment.id)) {
+        reanchored.push(comment);
+      }
+    }
+    errors = errors.filter(
+      (error) => !reanchored.some((c) => c.id === error.commentId)
+    );
+  }
+  const checkedPins = schema.comments.filter((comment) =>
+    hasAnyTag(comment, options.tags ?? [])
+  );
+  return { sourceUri, schema, errors, checkedPins, reanchored };
+}
+
+/**
+ * Validate every schema file stored under the save root.
+ */
+export async function checkSaveRoot(
+  saveRoot: URI,
+  options: CheckOptions = {}
+): Promise<CheckResult> {
+  const result: CheckResult = { saveRoot, files: [], failures: [] };
+  for (const schemaUri of await listSchemaFiles(saveRoot)) {
+    const sourceUri = schemaFileUriToSourceUri(schemaUri);
+    try {
+      const fileResult = await checkFile(saveRoot, sourceUri, options);
+      if (fileResult != null) {
+        result.files.push(fileResult);
+      }
+    } catch (e) {
+      result.failures.push({ schemaUri, message: getErrorMessage(e) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Count the pins with at least one error, a pin has an error for each drifted code target.
+ * With minSeverity, only count the pins which are at least that severe.
+ */
+export function countBrokenPins(
+  results: CheckResult[],
+  params: { minSeverity?: PinSeverity } = {}
+): number {
+  const { minSeverity = "hint" } = params;
+  let count = 0;
+  for (const result of results) {
+    for (const file of result.files) {
+      const errors = file.errors.filter((error) =>
+        isAtLeastAsSevere(error.severity, minSeverity)
+      );
+      count += new Set(errors.map((error) => error.commentId)).size;
+    }
+  }
+  return count;
+}
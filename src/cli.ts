@@ -0,0 +1,514 @@
+// Command line interface for code-couplet.
+// Each command takes the parsed arguments and resolves to the process exit code.
+
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+import { PROJECT_NAME, SCHEMA_VERSION } from "./constants";
+import {
+  CheckOptions,
+  CheckResult,
+  checkSaveRoot,
+  countBrokenPins,
+  findSaveRootsWithSchemas,
+} from "./check";
+import { fixCheckResult } from "./fix";
+import { exists, FileType, getFs } from "./fsShim";
+import { getGitAuthor, getRepoRoot } from "./git";
+import { checkStaged, installPreCommitHook } from "./hook";
+import { REPORT_FORMATS, ReportFormat, writeReport } from "./reports";
+import {
+  findSaveRoot,
+  getSourceRootRelativePath,
+  isAtLeastAsSevere,
+  migrateSchemaFiles,
+  parseTags,
+  PIN_SEVERITIES,
+} from "./schema";
+import { renameSourceFiles } from "./rename";
+import { listSourceFiles, suggestPinsForFile } from "./suggest";
+import { PinSeverity } from "./types";
+import { getErrorMessage } from "./utils";
+import { describeError, ValidationError } from "./validation";
+
+export enum ExitCode {
+  Ok = 0,
+  // Some pins at least as severe as --fail-on are broken
+  Mismatch = 1,
+  // Bad arguments or unexpected failure
+  Error = 2,
+}
+
+export type ParsedArgs = {
+  positional: string[];
+  flags: Map<string, string | true>;
+};
+
+type Command = {
+  usage: string;
+  // Flags which take the next argument as their value
+  valueFlags?: string[];
+  run: (args: ParsedArgs) => Promise<ExitCode>;
+};
+
+/**
+ * Parse "--flag", "--flag=value" and positional arguments.
+ * Flags listed in valueFlags consume the following argument as their value.
+ */
+export function parseArgs(
+  argv: string[],
+  valueFlags: string[] = []
+): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    const eqIndex = arg.indexOf("=");
+    if (eqIndex !== -1) {
+      flags.set(arg.slice(2, eqIndex), arg.slice(eqIndex + 1));
+    } else if (valueFlags.includes(arg.slice(2)) && i + 1 < argv.length) {
+      flags.set(arg.slice(2), argv[++i]);
+    } else {
+      flags.set(arg.slice(2), true);
+    }
+  }
+  return { positional, flags };
+}
+
+function pathsToUris(paths: string[]): URI[] {
+  if (paths.length === 0) {
+    paths = ["."];
+  }
+  return paths.map((p) => URI.file(path.resolve(p)));
+}
+
+function formatError(saveRoot: URI, error: ValidationError): string {
+  const commentPath = getSourceRootRelativePath(
+    saveRoot,
+    URI.parse(error.commentUriString)
+  );
+  const { line, char } = error.commentRange.start;
+  return `${commentPath}:${line + 1}:${char + 1}: ${
+    error.severity
+  }: ${describeError(error)}`;
+}
+
+/**
+ * Read --fail-on, the least severe pin severity which makes the command fail (default error).
+ */
+function parseFailOn(args: ParsedArgs): PinSeverity {
+  const failOn = args.flags.get("fail-on");
+  if (failOn == null) {
+    return "error";
+  }
+  if (!PIN_SEVERITIES.includes(failOn as PinSeverity)) {
+    throw new Error(
+      `Unknown severity ${failOn}, expected one of ${PIN_SEVERITIES.join(", ")}`
+    );
+  }
+  return failOn as PinSeverity;
+}
+
+/**
+ * Print every mismatch and failure in the results, followed by a summary line.
+ */
+function printCheckResults(results: CheckResult[]) {
+  let pinCount = 0;
+  let fileCount = 0;
+  for (const result of results) {
+    for (const { schemaUri, message } of result.failures) {
+      console.error(`Could not check ${schemaUri.fsPath}: ${message}`);
+    }
+    for (const file of result.files) {
+      fileCount++;
+      pinCount += file.checkedPins.length;
+      for (const error of file.errors) {
+        console.log(formatError(result.saveRoot, error));
+      }
+    }
+  }
+  const reanchoredCount = results
+    .flatMap((r) => r.files)
+    .reduce((count, file) => count + (file.reanchored?.length || 0), 0);
+  if (reanchoredCount > 0) {
+    console.log(
+      `${reanchoredCount} pins were re-anchored using git history, run fix --anchor git to save them`
+    );
+  }
+  const errorCount = countBrokenPins(results);
+  if (errorCount > 0) {
+    console.log(
+      `${errorCount} of ${pinCount} pins broken in ${fileCount} files`
+    );
+  } else {
+    console.log(`All ${pinCount} pins in ${fileCount} files are OK`);
+  }
+}
+
+function parseCheckOptions(args: ParsedArgs): CheckOptions {
+  const options: CheckOptions = {};
+  const anchor = args.flags.get("anchor");
+  if (anchor === "git") {
+    options.anchor = anchor;
+  } else if (anchor != null) {
+    throw new Error(`Unknown anchor mode ${anchor}, expected git`);
+  }
+  const fuzzyThreshold = args.flags.get("fuzzy-threshold");
+  if (fuzzyThreshold != null) {
+    options.fuzzyThreshold = Number(fuzzyThreshold);
+    if (
+      !(options.fuzzyThreshold > 0 && options.fuzzyThreshold <= 1) ||
+      fuzzyThreshold === true
+    ) {
+      throw new Error(
+        `--fuzzy-threshold must be a number in (0, 1], got ${fuzzyThreshold}`
+      );
+    }
+  }
+  const tags = args.flags.get("tags");
+  if (tags != null) {
+    if (tags === true) {
+      throw new Error("--tags requires a comma separated list of tags");
+    }
+    options.tags = parseTags(tags);
+  }
+  return options;
+}
+
+/**
+ * Check every save root containing the given paths.
+ * Resolves to null (after printing why) if there are no schema folders to check.
+ */
+async function checkPaths(
+  paths: string[],
+  options: CheckOptions = {}
+): Promise<CheckResult[] | null> {
+  const saveRoots = await findSaveRootsWithSchemas(pathsToUris(paths));
+  if (saveRoots.length === 0) {
+    console.error(`No ${PROJECT_NAME} schema folders found`);
+    return null;
+  }
+  const results = [];
+  for (const saveRoot of saveRoots) {
+    results.push(await checkSaveRoot(saveRoot, options));
+  }
+  return results;
+}
+
+const commands: { [name: string]: Command } = {
+  check: {
+    usage:
+      "check [paths...] [--staged] [--anchor git] [--fuzzy-threshold n] [--tags a,b] [--fail-on error|warning|info|hint] [--format json|sarif|junit] [--output file]  validate all pins in the repositories of paths",
+    valueFlags: [
+      "format",
+      "output",
+      "anchor",
+      "fuzzy-threshold",
+      "tags",
+      "fail-on",
+    ],
+    async run(args) {
+      const failOn = parseFailOn(args);
+      const format = args.flags.get("format");
+      const output = args.flags.get("output");
+      if (format != null && !REPORT_FORMATS.includes(format as ReportFormat)) {
+        console.error(
+          `Unknown format ${format}, expected one of ${REPORT_FORMATS.join(
+            ", "
+          )}`
+        );
+        return ExitCode.Error;
+      }
+      if (output != null && (output === true || format == null)) {
+        console.error("--output requires a file name and a --format");
+        return ExitCode.Error;
+      }
+      const options = parseCheckOptions(args);
+      const results = [];
+      if (args.flags.has("staged")) {
+        if (options.anchor != null) {
+          console.error(
+            "--anchor can't be combined with --staged, staged files are checked as they will be committed"
+          );
+          return ExitCode.Error;
+        }
+        // Only the pins affected by staged changes, read from the git index
+        const [cwd] = pathsToUris(args.positional);
+        results.push(await checkStaged(await getRepoRoot(cwd), options));
+      } else {
+        const pathResults = await checkPaths(args.positional, options);
+        if (pathResults == null) {
+          return ExitCode.Error;
+        }
+        results.push(...pathResults);
+      }
+      if (format == null) {
+        printCheckResults(results);
+      } else {
+        const report = writeReport(format as ReportFormat, results, failOn);
+        if (output != null) {
+          await getFs().writeFile(
+            URI.file(path.resolve(output as string)),
+            Buffer.from(report)
+          );
+          printCheckResults(results);
+        } else {
+          console.log(report);
+        }
+      }
+      if (results.some((r) => r.failures.length > 0)) {
+        return ExitCode.Error;
+      }
+      return countBrokenPins(results, { minSeverity: failOn }) > 0
+        ? ExitCode.Mismatch
+        : ExitCode.Ok;
+    },
+  },
+  fix: {
+    usage:
+      "fix [paths...] [--dry-run] [--anchor git] [--fuzzy-threshold n] [--tags a,b] [--fail-on error|warning|info|hint]  move pins whose text was found at a new location",
+    valueFlags: ["anchor", "fuzzy-threshold", "tags", "fail-on"],
+    async run(args) {
+      const failOn = parseFailOn(args);
+      const options = parseCheckOptions(args);
+      // Only move pins to approximate matches when asked to
+      if (options.fuzzyThreshold == null) {
+        options.fuzzyThreshold = 1;
+      }
+      const results = await checkPaths(args.positional, options);
+      if (results == null) {
+        return ExitCode.Error;
+      }
+      const dryRun = args.flags.has("dry-run");
+      let movedCount = 0;
+      let unfixableCount = 0;
+      let approximateCount = 0;
+      let failingCount = 0;
+      for (const result of results) {
+        for (const { schemaUri, message } of result.failures) {
+          console.error(`Could not check ${schemaUri.fsPath}: ${message}`);
+        }
+        for (const file of await fixCheckResult(result, { dryRun })) {
+          if (dryRun && file.diff) {
+            console.log(file.diff);
+          }
+          for (const error of file.unfixable) {
+            console.log(formatError(result.saveRoot, error));
+          }
+          for (const error of file.approximate) {
+            console.log(
+              `${formatError(result.saveRoot, error)} (moved to ${Math.round(
+                error.moveFixConfidence! * 100
+              )}% similar text)`
+            );
+          }
+          const broken = [...file.unfixable, ...file.approximate];
+          movedCount += file.moved.length;
+          unfixableCount += file.unfixable.length;
+          approximateCount += new Set(file.approximate.map((e) => e.commentId))
+            .size;
+          failingCount += broken.filter((error) =>
+            isAtLeastAsSevere(error.severity, failOn)
+          ).length;
+        }
+      }
+      console.log(
+        `${
+          dryRun ? "Would move" : "Moved"
+        } ${movedCount} pins, ${unfixableCount} pins could not be fixed` +
+          (approximateCount > 0
+            ? `, ${approximateCount} moved pins have changed text`
+            : "")
+      );
+      if (results.some((r) => r.failures.length > 0)) {
+        return ExitCode.Error;
+      }
+      return failingCount > 0 ? ExitCode.Mismatch : ExitCode.Ok;
+    },
+  },
+  suggest: {
+    usage:
+      "suggest [paths...] [--apply]  list comment blocks directly followed by code which are not pinned yet, or pin all of them",
+    async run(args) {
+      const apply = args.flags.has("apply");
+      let suggestionCount = 0;
+      let fileCount = 0;
+      let failed = false;
+      for (const uri of pathsToUris(args.positional)) {
+        const saveRoot = await findSaveRoot(uri);
+        const author = apply ? await getGitAuthor(saveRoot) : undefined;
+        const isFolder =
+          ((await getFs().stat(uri)).type & FileType.Directory) !== 0;
+        const sourceUris = isFolder ? await listSourceFiles(uri) : [uri];
+        for (const sourceUri of sourceUris) {
+          const relativePath = getSourceRootRelativePath(saveRoot, sourceUri);
+          try {
+            const suggestions = await suggestPinsForFile(saveRoot, sourceUri, {
+              apply,
+              author,
+            });
+            for (const {
+              commentRange,
+              commentValue,
+              codeValue,
+            } of suggestions) {
+              const firstLine = (text: string) => text.split(/\r?\n/)[0].trim();
+              console.log(
+                `${relativePath}:${commentRange.start.line + 1}: ${firstLine(
+                  commentValue
+                )} -> ${firstLine(codeValue)}`
+              );
+            }
+            suggestionCount += suggestions.length;
+            fileCount += suggestions.length > 0 ? 1 : 0;
+          } catch (e) {
+            console.error(
+              `Could not suggest pins for ${
+                sourceUri.fsPath
+              }: ${getErrorMessage(e)}`
+            );
+            failed = true;
+          }
+        }
+      }
+      console.log(
+        `${
+          apply ? "Pinned" : "Suggested"
+        } ${suggestionCount} pins in ${fileCount} files`
+      );
+      return failed ? ExitCode.Error : ExitCode.Ok;
+    },
+  },
+  migrate: {
+    usage:
+      "migrate [paths...] [--dry-run]  rewrite schema files in older formats or the legacy flat layout to the current version and layout",
+    async run(args) {
+      const saveRoots = await findSaveRootsWithSchemas(
+        pathsToUris(args.positional)
+      );
+      if (saveRoots.length === 0) {
+        console.error(`No ${PROJECT_NAME} schema folders found`);
+        return ExitCode.Error;
+      }
+      const dryRun = args.flags.has("dry-run");
+      let migratedCount = 0;
+      for (const saveRoot of saveRoots) {
+        const migrated = await migrateSchemaFiles(saveRoot, { dryRun });
+        for (const { schemaUri, fromVersion, newSchemaUri } of migrated) {
+          const relative = (uri: URI) =>
+            getSourceRootRelativePath(saveRoot, uri);
+          console.log(
+            `${relative(schemaUri)} (v${fromVersion}) -> ${relative(
+              newSchemaUri
+            )} (v${SCHEMA_VERSION})`
+          );
+          migratedCount++;
+        }
+      }
+      console.log(
+        `${dryRun ? "Would migrate" : "Migrated"} ${migratedCount} schema files`
+      );
+      return ExitCode.Ok;
+    },
+  },
+  mv: {
+    usage:
+      "mv <from> <to> [--dry-run]  rename a source file or folder and update the schemas pinning it, or only update the schemas if it was already renamed (e.g. with git mv)",
+    async run(args) {
+      if (args.positional.length !== 2) {
+        console.error("mv takes a source and a destination path");
+        return ExitCode.Error;
+      }
+      const [from, to] = pathsToUris(args.positional);
+      const dryRun = args.flags.has("dry-run");
+      const fromExists = await exists(from);
+      const toExists = await exists(to);
+      if (fromExists && toExists) {
+        console.error(`${to.fsPath} already exists`);
+        return ExitCode.Error;
+      }
+      if (!fromExists && !toExists) {
+        console.error(`${from.fsPath} does not exist`);
+        return ExitCode.Error;
+      }
+      // Only the schemas are updated when the source was already renamed
+      const moveSource = fromExists;
+      const saveRoot = await findSaveRoot(moveSource ? from : to);
+      // The source is only renamed once the schemas are known to have no conflicts
+      const { moved, changed } = await renameSourceFiles(saveRoot, from, to, {
+        dryRun,
+        moveSource,
+      });
+      const relative = (uri: URI) => getSourceRootRelativePath(saveRoot, uri);
+      for (const rename of moved) {
+        console.log(`${relative(rename.from)} -> ${relative(rename.to)}`);
+      }
+      console.log(
+        `${dryRun ? "Would update" : "Updated"} ${changed.length} schema files`
+      );
+      return ExitCode.Ok;
+    },
+  },
+  lsp: {
+    usage:
+      "lsp [--stdio]  start a language server for editors other than VS Code on stdin and stdout",
+    async run() {
+      // Loaded here so the other commands don't pay for the language server library
+      const { startLanguageServer } = await import("./lsp");
+      startLanguageServer();
+      // The connection keeps the process alive until the client sends exit
+      return ExitCode.Ok;
+    },
+  },
+  "install-hook": {
+    usage:
+      "install-hook [path] [--force]  install a git pre-commit hook which runs check --staged",
+    async run(args) {
+      const [cwd] = pathsToUris(args.positional);
+      const hookUri = await installPreCommitHook(await getRepoRoot(cwd), {
+        force: args.flags.has("force"),
+      });
+      console.log(`Installed pre-commit hook at ${hookUri.fsPath}`);
+      return ExitCode.Ok;
+    },
+  },
+};
+
+function printUsage() {
+  console.log(`usage: ${PROJECT_NAME} <command> [options]\n\ncommands:`);
+  for (const command of Object.values(commands)) {
+    console.log(`  ${command.usage}`);
+  }
+}
+
+export async function main(argv: string[]): Promise<ExitCode> {
+  const [commandName, ...rest] = argv;
+  if (commandName === "--version") {
+    console.log(`${PROJECT_NAME} schema v${SCHEMA_VERSION}`);
+    return ExitCode.Ok;
+  }
+  if (commandName == null || commandName === "--help") {
+    printUsage();
+    return commandName == null ? ExitCode.Error : ExitCode.Ok;
+  }
+  const command = commands[commandName];
+  if (command == null) {
+    console.error(`Unknown command: ${commandName}`);
+    printUsage();
+    return ExitCode.Error;
+  }
+  try {
+    return await command.run(parseArgs(rest, command.valueFlags));
+  } catch (e) {
+    console.error(`${PROJECT_NAME} ${commandName}: ${getErrorMessage(e)}`);
+    return ExitCode.Error;
+  }
+}
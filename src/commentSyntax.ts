@@ -0,0 +1,175 @@
+// Built-in comment syntax of mainstream languages, so comments are found without VS Code,
+// e.g. in the CLI and the language server. In VS Code the syntax contributed by the
+// extension of the language overrides it.
+
+import { CommentSyntax } from "./comments";
+
+const C_LIKE: CommentSyntax = { lineComment: "//", blockComment: ["/*", "*/"] };
+const HASH: CommentSyntax = { lineComment: "#" };
+const HTML: CommentSyntax = { blockComment: ["<!--", "-->"] };
+
+// Keyed by VS Code language ID
+const COMMENT_SYNTAXES: Record<string, CommentSyntax> = {
+  c: C_LIKE,
+  clojure: { lineComment: ";" },
+  coffeescript: { lineComment: "#", blockComment: ["###", "###"] },
+  cpp: C_LIKE,
+  csharp: C_LIKE,
+  css: { blockComment: ["/*", "*/"] },
+  d: C_LIKE,
+  dart: C_LIKE,
+  dockerfile: HASH,
+  elixir: HASH,
+  elm: { lineComment: "--", blockComment: ["{-", "-}"] },
+  erlang: { lineComment: "%" },
+  fsharp: { lineComment: "//", blockComment: ["(*", "*)"] },
+  go: C_LIKE,
+  groovy: C_LIKE,
+  haskell: { lineComment: "--", blockComment: ["{-", "-}"] },
+  html: HTML,
+  ini: { lineComment: ";" },
+  java: C_LIKE,
+  javascript: C_LIKE,
+  javascriptreact: C_LIKE,
+  jsonc: C_LIKE,
+  julia: { lineComment: "#", blockComment: ["#=", "=#"] },
+  kotlin: C_LIKE,
+  latex: { lineComment: "%" },
+  less: C_LIKE,
+  lua: { lineComment: "--", blockComment: ["--[[", "]]"] },
+  makefile: HASH,
+  markdown: HTML,
+  "objective-c": C_LIKE,
+  "objective-cpp": C_LIKE,
+  ocaml: { blockComment: ["(*", "*)"] },
+  perl: HASH,
+  php: C_LIKE,
+  powershell: { lineComment: "#", blockComment: ["<#", "#>"] },
+  python: { lineComment: "#", blockComment: ['"""', '"""'] },
+  r: HASH,
+  ruby: { lineComment: "#", blockComment: ["=begin", "=end"] },
+  rust: C_LIKE,
+  scala: C_LIKE,
+  scss: C_LIKE,
+  shellscript: HASH,
+  sql: { lineComment: "--", blockComment: ["/*", "*/"] },
+  swift: C_LIKE,
+  toml: HASH,
+  typescript: C_LIKE,
+  typescriptreact: C_LIKE,
+  vb: { lineComment: "'" },
+  xml: HTML,
+  yaml: HASH,
+};
+
+// Lowercase file extensions (or whole names of files without one) to language IDs
+const FILE_LANGUAGES: Record<string, string> = {
+  ".bash": "shellscript",
+  ".c": "c",
+  ".cc": "cpp",
+  ".cjs": "javascript",
+  ".clj": "clojure",
+  ".cljc": "clojure",
+  ".cljs": "clojure",
+  ".coffee": "coffeescript",
+  ".cpp": "cpp",
+  ".cs": "csharp",
+  ".css": "css",
+  ".cts": "typescript",
+  ".cxx": "cpp",
+  ".d": "d",
+  ".dart": "dart",
+  ".elm": "elm",
+  ".erl": "erlang",
+  ".ex": "elixir",
+  ".exs": "elixir",
+  ".fs": "fsharp",
+  ".fsi": "fsharp",
+  ".fsx": "fsharp",
+  ".go": "go",
+  ".gradle": "groovy",
+  ".groovy": "groovy",
+  ".h": "c",
+  ".hh": "cpp",
+  ".hpp": "cpp",
+  ".hrl": "erlang",
+  ".hs": "haskell",
+  ".htm": "html",
+  ".html": "html",
+  ".hxx": "cpp",
+  ".ini": "ini",
+  ".java": "java",
+  ".jl": "julia",
+  ".js": "javascript",
+  ".jsonc": "jsonc",
+  ".jsx": "javascriptreact",
+  ".kt": "kotlin",
+  ".kts": "kotlin",
+  ".less": "less",
+  ".lua": "lua",
+  ".m": "objective-c",
+  ".md": "markdown",
+  ".mjs": "javascript",
+  ".mk": "makefile",
+  ".ml": "ocaml",
+  ".mli": "ocaml",
+  ".mm": "objective-cpp",
+  ".mts": "typescript",
+  ".php": "php",
+  ".pl": "perl",
+  ".pm": "perl",
+  ".ps1": "powershell",
+  ".psm1": "powershell",
+  ".py": "python",
+  ".pyi": "python",
+  ".r": "r",
+  ".rb": "ruby",
+  ".rs": "rust",
+  ".sc": "scala",
+  ".scala": "scala",
+  ".scss": "scss",
+  ".sh": "shellscript",
+  ".sql": "sql",
+  ".svg": "xml",
+  ".swift": "swift",
+  ".tex": "latex",
+  ".toml": "toml",
+  ".ts": "typescript",
+  ".tsx": "typescriptreact",
+  ".vb": "vb",
+  ".xml": "xml",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".zsh": "shellscript",
+  dockerfile: "dockerfile",
+  gnumakefile: "makefile",
+  makefile: "makefile",
+};
+
+/**
+ * Language ID of a file from its extension, or its name for files like Dockerfile.
+ * @param filePath a path or uri of the file
+ */
+export function languageIdForPath(filePath: string): string | null {
+  const name = filePath.slice(filePath.lastIndexOf("/") + 1).toLowerCase();
+  const dot = name.lastIndexOf(".");
+  const key = dot > 0 ? name.slice(dot) : name;
+  return FILE_LANGUAGES[key] ?? null;
+}
+
+/**
+ * Built-in comment syntax by language ID, falling back to the extension of the path for unknown IDs
+ * (e.g. the generic "text" of documents read from disk).
+ * @returns null when the language is unknown
+ */
+export function getCommentSyntax(params: {
+  languageId?: string;
+  path?: string;
+}): CommentSyntax | null {
+  const { languageId, path } = params;
+  if (languageId != null && COMMENT_SYNTAXES[languageId] != null) {
+    return COMMENT_SYNTAXES[languageId];
+  }
+  const pathLanguageId = path != null ? languageIdForPath(path) : null;
+  return pathLanguageId != null ? COMMENT_SYNTAXES[pathLanguageId] : null;
+}
@@ -0,0 +1,192 @@
+// Parsing of comments in source text, independent of the editor.
+// Strings are not parsed, so comment markers inside string literals are treated as comments.
+
+export type CommentSyntax = {
+  lineComment?: string | null;
+  blockComment?: [string, string] | null;
+};
+
+// Offsets into the text, end exclusive
+export type TextSpan = { start: number; end: number };
+
+// Languages whose block comments can contain other block comments, e.g. /* a /* b */ c */ in Rust
+const NESTED_BLOCK_COMMENT_LANGUAGES = new Set([
+  "dart",
+  "fsharp",
+  "haskell",
+  "julia",
+  "kotlin",
+  "ocaml",
+  "rust",
+  "scala",
+  "swift",
+]);
+
+export function allowsNestedBlockComments(languageId: string): boolean {
+  return NESTED_BLOCK_COMMENT_LANGUAGES.has(languageId);
+}
+
+/**
+ * Find the block comments of the text, e.g. C block comments or Python docstrings, including their markers.
+ * Block comment markers after a line comment marker are ignored, and an unterminated block comment is not a comment.
+ */
+export function findBlockComments(
+  text: string,
+  syntax: CommentSyntax,
+  params: { nested?: boolean } = {}
+): TextSpan[] {
+  const { lineComment, blockComment } = syntax;
+  if (blockComment == null) {
+    return [];
+  }
+  const [open, close] = blockComment;
+  // Nesting only makes sense when the markers differ, e.g. not for """ docstrings
+  const nested = params.nested === true && open !== close;
+  const spans: TextSpan[] = [];
+  let i = 0;
+  while (i < text.length) {
+    // Check the block marker first, some start with the line marker (Lua's --[[ and --)
+    if (text.startsWith(open, i)) {
+      const start = i;
+      let depth = 1;
+      i += open.length;
+      while (i < text.length && depth > 0) {
+        if (text.startsWith(close, i)) {
+          depth--;
+          i += close.length;
+        } else if (nested && text.startsWith(open, i)) {
+          depth++;
+          i += open.length;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) {
+        break;
+      }
+      spans.push({ start, end: i });
+    } else if (lineComment && text.startsWith(lineComment, i)) {
+      const lineEnd = text.indexOf("\n", i);
+      if (lineEnd === -1) {
+        break;
+      }
+      i = lineEnd + 1;
+    } else {
+      i++;
+    }
+  }
+  return spans;
+}
+
+const STRING_QUOTES = ['"', "'", "`"];
+
+// Languages where ' does not always start a string, e.g. Rust lifetimes ('a) or Haskell primes (x')
+const DOUBLE_QUOTE_LANGUAGES = new Set([
+  "clojure",
+  "elm",
+  "fsharp",
+  "haskell",
+  "ocaml",
+  "rust",
+  "scala",
+]);
+
+/**
+ * Characters which start and end strings on a line of the language, for findTrailingComment.
+ */
+export function getStringQuotes(languageId: string): string[] {
+  return DOUBLE_QUOTE_LANGUAGES.has(languageId) ? ['"'] : STRING_QUOTES;
+}
+
+/**
+ * Start of the comment after the code of a line, e.g. the // of `const RETRIES = 3; // see backoff`.
+ * Returns null if the line has no such comment, including when the whole line is a comment.
+ * Strings on the line are skipped, so comment markers inside them are not comments.
+ * @param params.quotes the string quotes of the language, see getStringQuotes
+ */
+export function findTrailingComment(
+  line: string,
+  syntax: CommentSyntax,
+  params: { quotes?: string[] } = {}
+): number | null {
+  const { lineComment, blockComment } = syntax;
+  const quotes = params.quotes ?? STRING_QUOTES;
+  const afterCode = (index: number) =>
+    line.slice(0, index).trim().length > 0 ? index : null;
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    if (quote != null) {
+      if (line[i] === "\\") {
+        i++;
+      } else if (line[i] === quote) {
+        quote = null;
+      }
+    } else if (lineComment && line.startsWith(lineComment, i)) {
+      return afterCode(i);
+    } else if (quotes.includes(line[i])) {
+      quote = line[i];
+    } else if (blockComment && line.startsWith(blockComment[0], i)) {
+      const [open, close] = blockComment;
+      const closeIndex = line.indexOf(close, i + open.length);
+      if (closeIndex === -1) {
+        return null;
+      }
+      // A block comment is only trailing if nothing follows it, otherwise it's part of the code
+      if (line.slice(closeIndex + close.length).trim().length === 0) {
+        return afterCode(i);
+      }
+      i = closeIndex + close.length - 1;
+    }
+  }
+  return null;
+}
+
+export type LineType = "comment" | "empty" | "code";
+
+/**
+ * Classify every line of the text, this is how comment blocks and the code after them are found.
+ * A comment line only contains a line comment or block comments, a block comment which shares
+ * a line with code is part of the code, and so are comments after code.
+ */
+export function classifyLines(
+  text: string,
+  syntax: CommentSyntax,
+  params: { nested?: boolean } = {}
+): LineType[] {
+  const lines = text.split(/\r?\n/);
+  const types: LineType[] = lines.map((line) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) {
+      return "empty";
+    }
+    if (syntax.lineComment && trimmed.startsWith(syntax.lineComment)) {
+      return "comment";
+    }
+    return "code";
+  });
+  // Spans are in order, so count line breaks incrementally to find their lines
+  let line = 0;
+  let offset = 0;
+  const lineAt = (target: number) => {
+    for (; offset < target; offset++) {
+      if (text[offset] === "\n") {
+        line++;
+      }
+    }
+    return line;
+  };
+  for (const { start, end } of findBlockComments(text, syntax, params)) {
+    const before = text.slice(text.lastIndexOf("\n", start - 1) + 1, start);
+    const lineEnd = text.indexOf("\n", end);
+    const after = text.slice(end, lineEnd === -1 ? text.length : lineEnd);
+    const startLine = lineAt(start);
+    const endLine = lineAt(end);
+    if (before.trim().length > 0 || after.trim().length > 0) {
+      continue;
+    }
+    for (let l = startLine; l <= endLine; l++) {
+      types[l] = "comment";
+    }
+  }
+  return types;
+}
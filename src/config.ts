@@ -0,0 +1,48 @@
+// Settings which apply to every schema file of a save root.
+// They are read from .code-couplet.json next to the schema folder, so they can't collide with
+// the schema file of any source file.
+
+import * as t from "io-ts";
+import { isRight } from "fp-ts/lib/Either";
+import { URI, Utils } from "vscode-uri";
+
+import { exists, getFs } from "./fsShim";
+import { Normalization } from "./types";
+
+const fs = getFs();
+
+export const CONFIG_FILE_NAME = ".code-couplet.json";
+
+const RepoConfig = t.partial({
+  // Comparison mode of pins which don't have their own, instead of the mode of their schema file
+  normalization: Normalization,
+  // Store a hash of pinned text instead of the text itself, keeping schema files small
+  storage: t.keyof({ text: null, hash: null }),
+  // Characters of pinned text kept as a preview when storing hashes (default 0)
+  previewLength: t.number,
+});
+export type RepoConfig = t.TypeOf<typeof RepoConfig>;
+
+export function buildRepoConfigPath(saveRoot: URI): URI {
+  return Utils.joinPath(saveRoot, CONFIG_FILE_NAME);
+}
+
+/**
+ * Read the settings of the save root, empty if it has no config file.
+ * Throws an error if the config file is not valid.
+ */
+export async function loadRepoConfig(saveRoot: URI): Promise<RepoConfig> {
+  const configUri = buildRepoConfigPath(saveRoot);
+  if (!(await exists(configUri))) {
+    return {};
+  }
+  return decodeRepoConfig((await fs.readFile(configUri)).toString(), configUri);
+}
+
+export function decodeRepoConfig(contents: string, configUri: URI): RepoConfig {
+  const validation = RepoConfig.decode(JSON.parse(contents));
+  if (!isRight(validation)) {
+    throw new Error(`Could not decode config at ${configUri.path}`);
+  }
+  return validation.right;
+}
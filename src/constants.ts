@@ -1,4 +1,4 @@
 export const PROJECT_NAME = "code-couplet";
-export const SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 3;
 
 export const DEBUG = process.execArgv.some((arg) => arg.includes("inspect"));
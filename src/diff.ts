@@ -0,0 +1,131 @@
+// Line-based text diff, used to preview schema changes before they are written.
+
+export type LineEdit = {
+  type: "equal" | "delete" | "insert";
+  line: string;
+};
+
+/**
+ * Compute the shortest edit script turning lines a into lines b.
+ * This is the greedy algorithm from Myers' "An O(ND) Difference Algorithm and Its Variations".
+ */
+export function diffLines(a: string[], b: string[]): LineEdit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  // v[k + max] = furthest x reached on diagonal k, one snapshot per edit distance d
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + max] < v[k + 1 + max])
+          ? v[k + 1 + max]
+          : v[k - 1 + max] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + max] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the snapshots backwards to recover the path
+  const edits: LineEdit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && snapshot[k - 1 + max] < snapshot[k + 1 + max])
+        ? k + 1
+        : k - 1;
+    const prevX = snapshot[prevK + max];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: "insert", line: b[--y] });
+      } else {
+        edits.push({ type: "delete", line: a[--x] });
+      }
+    }
+  }
+  return edits.reverse();
+}
+
+/**
+ * Format the difference between two texts as a unified diff.
+ * Returns an empty string if the texts are equal.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName: string,
+  newName: string,
+  context = 3
+): string {
+  const edits = diffLines(oldText.split("\n"), newText.split("\n"));
+  // Indexes of edits which are changes, grouped into hunks when their contexts overlap
+  const changeIndexes = edits
+    .map((edit, i) => (edit.type === "equal" ? -1 : i))
+    .filter((i) => i !== -1);
+  if (changeIndexes.length === 0) {
+    return "";
+  }
+  const hunks: [number, number][] = [];
+  for (const i of changeIndexes) {
+    const start = Math.max(0, i - context);
+    const end = Math.min(edits.length, i + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const lines = [`--- ${oldName}`, `+++ ${newName}`];
+  // Line numbers (1-based) of the next old and new line at each edit index
+  let oldLine = 1;
+  let newLine = 1;
+  let editIndex = 0;
+  for (const [start, end] of hunks) {
+    for (; editIndex < start; editIndex++) {
+      oldLine += edits[editIndex].type !== "insert" ? 1 : 0;
+      newLine += edits[editIndex].type !== "delete" ? 1 : 0;
+    }
+    const body = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (const edit of edits.slice(start, end)) {
+      if (edit.type === "equal") {
+        body.push(` ${edit.line}`);
+        oldCount++;
+        newCount++;
+      } else if (edit.type === "delete") {
+        body.push(`-${edit.line}`);
+        oldCount++;
+      } else {
+        body.push(`+${edit.line}`);
+        newCount++;
+      }
+    }
+    lines.push(
+      `@@ -${oldCount > 0 ? oldLine : oldLine - 1},${oldCount} +${
+        newCount > 0 ? newLine : newLine - 1
+      },${newCount} @@`,
+      ...body
+    );
+  }
+  return lines.join("\n") + "\n";
+}
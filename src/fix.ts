@@ -0,0 +1,114 @@
+// Headless bulk fixing: apply every available moveFix from validation and save the schemas.
+
+import { URI } from "vscode-uri";
+
+import { CheckResult } from "./check";
+import { unifiedDiff } from "./diff";
+import {
+  buildSchemaPath,
+  getSourceRootRelativePath,
+  saveSchema,
+  serializeSchema,
+} from "./schema";
+import { CurrentComment, CurrentFile } from "./types";
+import { ValidationError } from "./validation";
+
+export type FileFixResult = {
+  sourceUri: URI;
+  // Ids of the pins whose ranges were moved
+  moved: number[];
+  // Errors which have no moveFix, and remain broken
+  unfixable: ValidationError[];
+  // Errors of moved pins whose text was only found approximately, which remain broken
+  approximate: ValidationError[];
+  // Unified diff of the schema file, empty if nothing was moved
+  diff: string;
+};
+
+/**
+ * Replace each pin that has a moveFix in errors with its fix, and each re-anchored pin
+ * with its new ranges. Returns a new schema, the input schema is not modified.
+ * A fix to an approximate match only moves the ranges of the pin, so its errors are also returned
+ * in approximate.
+ */
+export function applyMoveFixes(
+  schema: CurrentFile,
+  errors: ValidationError[],
+  reanchored: CurrentComment[] = []
+): {
+  schema: CurrentFile;
+  moved: number[];
+  unfixable: ValidationError[];
+  approximate: ValidationError[];
+} {
+  const moved: number[] = [];
+  const unfixable: ValidationError[] = [];
+  const approximate: ValidationError[] = [];
+  const comments = schema.comments.slice();
+  for (const comment of reanchored) {
+    const index = comments.findIndex((c) => c.id === comment.id);
+    if (index !== -1) {
+      comments[index] = comment;
+      moved.push(comment.id);
+    }
+  }
+  for (const error of errors) {
+    const index = comments.findIndex((c) => c.id === error.commentId);
+    if (error.moveFix == null || index === -1) {
+      unfixable.push(error);
+      continue;
+    }
+    if (!moved.includes(error.commentId)) {
+      // A pin with several drifted code targets has one error for each,
+      // but every one of them carries the same fix
+      comments[index] = error.moveFix;
+      moved.push(error.commentId);
+    }
+    if ((error.moveFixConfidence ?? 1) < 1) {
+      approximate.push(error);
+    }
+  }
+  return { schema: { ...schema, comments }, moved, unfixable, approximate };
+}
+
+/**
+ * Apply all moveFixes and re-anchored pins in the check result and save the changed schemas.
+ * With dryRun, nothing is written but the diffs are still computed.
+ * Note the schemas in the check result must be the complete schemas of each file.
+ */
+export async function fixCheckResult(
+  result: CheckResult,
+  params: { dryRun?: boolean } = {}
+): Promise<FileFixResult[]> {
+  const fileResults: FileFixResult[] = [];
+  for (const { sourceUri, schema, errors, reanchored } of result.files) {
+    if (errors.length === 0 && !reanchored?.length) {
+      continue;
+    }
+    const fixed = applyMoveFixes(schema, errors, reanchored);
+    let diff = "";
+    if (fixed.moved.length > 0) {
+      const schemaPath = getSourceRootRelativePath(
+        result.saveRoot,
+        buildSchemaPath(result.saveRoot, sourceUri)
+      );
+      diff = unifiedDiff(
+        serializeSchema(schema),
+        serializeSchema(fixed.schema),
+        `a/${schemaPath}`,
+        `b/${schemaPath}`
+      );
+      if (!params.dryRun) {
+        await saveSchema(result.saveRoot, sourceUri, fixed.schema);
+      }
+    }
+    fileResults.push({
+      sourceUri,
+      moved: fixed.moved,
+      unfixable: fixed.unfixable,
+      approximate: fixed.approximate,
+      diff,
+    });
+  }
+  return fileResults;
+}
@@ -37,13 +37,23 @@ export function getFs(): FileSystem {
 
     async readDirectory(uri: URI) {
       const fs = await import("fs");
-      const files = await util.promisify(fs.readdir)(uri.fsPath);
-      return files.map((f) => [f, FileType.File]);
+      const entries = await util.promisify(fs.readdir)(uri.fsPath, {
+        withFileTypes: true,
+      });
+      return entries.map((entry): [string, FileType] => [
+        entry.name,
+        entry.isDirectory()
+          ? FileType.Directory
+          : entry.isSymbolicLink()
+          ? FileType.SymbolicLink
+          : FileType.File,
+      ]);
     },
 
     async createDirectory(uri: URI) {
       const fs = await import("fs");
-      await util.promisify(fs.mkdir)(uri.fsPath);
+      // Like the vscode API, create any missing parent directories too
+      await util.promisify(fs.mkdir)(uri.fsPath, { recursive: true });
     },
 
     async readFile(uri: URI) {
@@ -0,0 +1,201 @@
+// Approximate search for pinned text which moved and was slightly changed, e.g. re-indented.
+// Candidates are windows of whole lines, compared after normalizing whitespace.
+
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+export type FuzzyMatch = {
+  // Offsets of the match in the document
+  start: number;
+  end: number;
+  // Similarity between 0 and 1, where 1 means equal after normalizing whitespace
+  score: number;
+};
+
+export function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Levenshtein distance between a and b, computed only within a band of width limit.
+ * Returns limit + 1 as soon as the distance is known to exceed limit.
+ */
+export function boundedEditDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    const from = Math.max(1, i - limit);
+    const to = Math.min(b.length, i + limit);
+    current[0] = i;
+    if (from > 1) {
+      current[from - 1] = limit + 1;
+    }
+    let rowMin = current[0];
+    for (let j = from; j <= to; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      const deletion = previous[j] + 1;
+      const insertion = current[j - 1] + 1;
+      current[j] = Math.min(substitution, deletion, insertion);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (to < b.length) {
+      current[to + 1] = limit + 1;
+    }
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    [previous, current] = [current, previous];
+  }
+  return Math.min(previous[b.length], limit + 1);
+}
+
+/**
+ * Similarity of the texts after normalizing whitespace, between 0 and 1.
+ * Returns 0 when the similarity is below threshold.
+ */
+export function similarity(a: string, b: string, threshold = 0): number {
+  const na = normalizeWhitespace(a);
+  const nb = normalizeWhitespace(b);
+  const maxLength = Math.max(na.length, nb.length);
+  if (maxLength === 0) {
+    return 1;
+  }
+  const limit = Math.floor((1 - threshold) * maxLength);
+  const distance = boundedEditDistance(na, nb, limit);
+  return distance > limit ? 0 : 1 - distance / maxLength;
+}
+
+// Character counts are folded into this many buckets for the histogram prefilter
+const HISTOGRAM_BUCKETS = 64;
+
+function histogram(text: string): Int32Array {
+  const counts = new Int32Array(HISTOGRAM_BUCKETS);
+  for (let i = 0; i < text.length; i++) {
+    counts[text.charCodeAt(i) % HISTOGRAM_BUCKETS]++;
+  }
+  return counts;
+}
+
+/**
+ * Lower bound of the edit distance between two texts with the given histograms:
+ * each edit changes the counts by at most one removal and one addition.
+ */
+function histogramDistance(a: Int32Array, b: Int32Array): number {
+  let difference = 0;
+  for (let i = 0; i < HISTOGRAM_BUCKETS; i++) {
+    difference += Math.abs(a[i] - b[i]);
+  }
+  return Math.ceil(difference / 2);
+}
+
+/**
+ * Find the window of lines in the document which best matches value.
+ * Windows may have one line more or less than value, to allow for added or removed lines.
+ * @param params.threshold minimum similarity of a match
+ * @param params.wholeLines whether matches start at the beginning of their first line,
+ *   otherwise they start at its first non-whitespace character
+ * @param params.nearLine break ties in favor of matches closest to this line
+ * @returns the best match, or null if none reaches the threshold
+ */
+export function findBestMatch(
+  doc: TextDocument,
+  value: string,
+  params: { threshold: number; wholeLines?: boolean; nearLine?: number }
+): FuzzyMatch | null {
+  const { threshold, wholeLines = true, nearLine = 0 } = params;
+  const normalizedValue = normalizeWhitespace(value);
+  if (normalizedValue.length === 0) {
+    return null;
+  }
+  const valueHistogram = histogram(normalizedValue);
+  const text = doc.getText();
+  const lines = text.split(/\r?\n/);
+  // Normalizing a window is the same as joining the normalized non-blank lines with spaces,
+  // so normalize and count every line once up front
+  const normalizedLines = lines.map(normalizeWhitespace);
+  const lineHistograms = normalizedLines.map(histogram);
+  const valueLineCount = value.split("\n").length;
+  // Visit lines closest to nearLine first, so ties keep the closest match
+  // and a good match found early narrows the search for the rest
+  const lineOrder = lines
+    .map((_, line) => line)
+    .sort((a, b) => Math.abs(a - nearLine) - Math.abs(b - nearLine) || a - b);
+  let best: { score: number; line: number; lastLine: number } | null = null;
+  for (const line of lineOrder) {
+    // Windows starting with a blank line are covered by the windows starting after it
+    if (normalizedLines[line].length === 0) {
+      continue;
+    }
+    for (const windowSize of [
+      valueLineCount,
+      valueLineCount - 1,
+      valueLineCount + 1,
+    ]) {
+      const lastLine = line + windowSize - 1;
+      if (windowSize < 1 || lastLine >= lines.length) {
+        continue;
+      }
+      const windowLines = normalizedLines
+        .slice(line, lastLine + 1)
+        .filter((l) => l.length > 0);
+      // Joining spaces are counted as well as the characters of each line
+      const windowLength =
+        windowLines.reduce((sum, l) => sum + l.length, 0) +
+        windowLines.length -
+        1;
+      const maxLength = Math.max(windowLength, normalizedValue.length);
+      // Only windows at least as good as the best so far are of interest
+      const limit = Math.floor(
+        (1 - Math.max(threshold, best?.score ?? 0)) * maxLength
+      );
+      if (Math.abs(windowLength - normalizedValue.length) > limit) {
+        continue;
+      }
+      const windowHistogram = new Int32Array(HISTOGRAM_BUCKETS);
+      windowHistogram[" ".charCodeAt(0) % HISTOGRAM_BUCKETS] +=
+        windowLines.length - 1;
+      for (let i = line; i <= lastLine; i++) {
+        for (let b = 0; b < HISTOGRAM_BUCKETS; b++) {
+          windowHistogram[b] += lineHistograms[i][b];
+        }
+      }
+      if (histogramDistance(windowHistogram, valueHistogram) > limit) {
+        continue;
+      }
+      const distance = boundedEditDistance(
+        windowLines.join(" "),
+        normalizedValue,
+        limit
+      );
+      if (distance > limit) {
+        continue;
+      }
+      const score = 1 - distance / maxLength;
+      if (best == null || score > best.score) {
+        best = { score, line, lastLine };
+      }
+    }
+  }
+  if (best == null) {
+    return null;
+  }
+  let start = doc.offsetAt({ line: best.line, character: 0 });
+  let end = doc.offsetAt({ line: best.lastLine + 1, character: 0 });
+  // Strip the line break and trailing whitespace of the last line
+  while (end > start && /\s/.test(text[end - 1])) {
+    end--;
+  }
+  if (!wholeLines) {
+    while (start < end && /\s/.test(text[start])) {
+      start++;
+    }
+  }
+  return { start, end, score: best.score };
+}
@@ -0,0 +1,99 @@
+// Thin wrappers around the local git binary, for features that need repository state.
+// Node-only, like the crypto module used in schema.ts.
+
+import { execFile } from "child_process";
+import * as path from "path";
+import { URI, Utils } from "vscode-uri";
+
+/**
+ * Run git with the given arguments in the cwd folder and resolve to its stdout.
+ * Rejects with git's stderr if it exits with a non-zero code.
+ */
+export function runGit(args: string[], cwd: URI): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd: cwd.fsPath, maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(
+            new Error(
+              `git ${args[0]} failed: ${stderr.trim() || error.message}`
+            )
+          );
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+export async function getRepoRoot(cwd: URI): Promise<URI> {
+  const toplevel = (await runGit(["rev-parse", "--show-toplevel"], cwd)).trim();
+  return URI.file(toplevel);
+}
+
+// Resolves the hooks folder, which respects core.hooksPath and worktrees
+export async function getHooksFolder(repoRoot: URI): Promise<URI> {
+  const hooksPath = (
+    await runGit(["rev-parse", "--git-path", "hooks"], repoRoot)
+  ).trim();
+  return path.isAbsolute(hooksPath)
+    ? URI.file(hooksPath)
+    : Utils.joinPath(repoRoot, hooksPath);
+}
+
+/**
+ * The configured git user as "name <email>", or undefined if git or the user is not configured.
+ */
+export async function getGitAuthor(cwd: URI): Promise<string | undefined> {
+  // git config exits with an error when the key is not set
+  const read = (key: string) =>
+    runGit(["config", key], cwd).then(
+      (value) => value.trim(),
+      () => ""
+    );
+  const [name, email] = await Promise.all([
+    read("user.name"),
+    read("user.email"),
+  ]);
+  if (name && email) {
+    return `${name} <${email}>`;
+  }
+  return name || email || undefined;
+}
+
+/**
+ * List the paths (relative to the repo root) of all files with staged changes,
+ * including deleted files.
+ */
+export async function getStagedPaths(repoRoot: URI): Promise<string[]> {
+  const output = await runGit(
+    ["diff", "--cached", "--name-only", "--no-renames", "-z"],
+    repoRoot
+  );
+  return output.split("\0").filter(Boolean);
+}
+
+/**
+ * List the paths (relative to the repo root) of all files in the index under the given folder.
+ */
+export async function listIndexedPaths(
+  repoRoot: URI,
+  folder: string
+): Promise<string[]> {
+  const output = await runGit(["ls-files", "-z", "--", folder], repoRoot);
+  return output.split("\0").filter(Boolean);
+}
+
+/**
+ * Read the staged (index) contents of the file at the path relative to the repo root.
+ */
+export async function readStagedFile(
+  repoRoot: URI,
+  relativePath: string
+): Promise<string> {
+  return runGit(["show", `:${relativePath}`], repoRoot);
+}
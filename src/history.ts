@@ -0,0 +1,163 @@
+// Re-anchor pins using git history: when lines shift in commits made outside the editor,
+// carry each range through the diff hunks between the commit that last wrote the schema and HEAD.
+// This is the offline equivalent of updateNonOverlappingComments in the extension.
+
+import { URI } from "vscode-uri";
+
+import { getRepoRoot, runGit } from "./git";
+import {
+  findSchemaPath,
+  getCodeTargets,
+  getSourceRootRelativePath,
+  resolveCodePath,
+  withCodeTarget,
+} from "./schema";
+import { CurrentFile, Range as SchemaRange } from "./types";
+
+// A hunk from a zero-context unified diff, with 1-based line numbers as git prints them
+export type Hunk = {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  for (const line of diff.split("\n")) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      hunks.push({
+        oldStart: Number(match[1]),
+        oldCount: match[2] != null ? Number(match[2]) : 1,
+        newStart: Number(match[3]),
+        newCount: match[4] != null ? Number(match[4]) : 1,
+      });
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Carry a range through the hunks of a diff.
+ * Returns the shifted range, or null if any hunk touches a line of the range.
+ */
+export function carryRangeThroughHunks(
+  range: SchemaRange,
+  hunks: Hunk[]
+): SchemaRange | null {
+  let lineDelta = 0;
+  for (const hunk of hunks) {
+    // 0-based index of the first old line replaced by the hunk.
+    // For pure insertions git reports the line before the insertion point.
+    const first = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const end = first + hunk.oldCount;
+    if (end <= range.start.line) {
+      lineDelta += hunk.newCount - hunk.oldCount;
+    } else if (first > range.end.line) {
+      // Hunks are sorted, so no later hunk can affect the range
+      break;
+    } else {
+      return null;
+    }
+  }
+  return {
+    start: { line: range.start.line + lineDelta, char: range.start.char },
+    end: { line: range.end.line + lineDelta, char: range.end.char },
+  };
+}
+
+async function lastCommitOf(repoRoot: URI, relativePath: string) {
+  const hash = (
+    await runGit(["log", "-1", "--format=%H", "--", relativePath], repoRoot)
+  ).trim();
+  return hash || null;
+}
+
+async function hasUncommittedChanges(repoRoot: URI, relativePath: string) {
+  const status = await runGit(
+    ["status", "--porcelain", "--", relativePath],
+    repoRoot
+  );
+  return status.trim().length > 0;
+}
+
+async function hunksSince(
+  repoRoot: URI,
+  commit: string,
+  relativePath: string
+): Promise<Hunk[]> {
+  const diff = await runGit(
+    [
+      "diff",
+      "-U0",
+      "--no-color",
+      "--no-ext-diff",
+      commit,
+      "HEAD",
+      "--",
+      relativePath,
+    ],
+    repoRoot
+  );
+  return parseHunks(diff);
+}
+
+/**
+ * Carry every range of the schema through the git diff between the commit where the schema
+ * was last written and HEAD. Returns a new schema, the input schema is not modified.
+ * Ranges touched by the diff, and all ranges of schemas that are not committed yet or have
+ * uncommitted changes, are left as they are.
+ */
+export async function anchorWithGitHistory(
+  saveRoot: URI,
+  sourceUri: URI,
+  schema: CurrentFile
+): Promise<CurrentFile> {
+  const repoRoot = await getRepoRoot(saveRoot);
+  const relative = (uri: URI) => getSourceRootRelativePath(repoRoot, uri);
+  const schemaUri = await findSchemaPath(saveRoot, sourceUri);
+  if (schemaUri == null) {
+    return schema;
+  }
+  const schemaPath = relative(schemaUri);
+  const commit = await lastCommitOf(repoRoot, schemaPath);
+  if (commit == null || (await hasUncommittedChanges(repoRoot, schemaPath))) {
+    return schema;
+  }
+
+  const hunksByPath = new Map<string, Promise<Hunk[]>>();
+  const getHunks = (uri: URI) => {
+    const path = relative(uri);
+    if (!hunksByPath.has(path)) {
+      hunksByPath.set(path, hunksSince(repoRoot, commit, path));
+    }
+    return hunksByPath.get(path)!;
+  };
+
+  const comments = [];
+  for (const comment of schema.comments) {
+    const commentRange = carryRangeThroughHunks(
+      comment.commentRange,
+      await getHunks(sourceUri)
+    );
+    let anchored = {
+      ...comment,
+      commentRange: commentRange || comment.commentRange,
+    };
+    const targets = getCodeTargets(comment);
+    for (let i = 0; i < targets.length; i++) {
+      const codeRange = carryRangeThroughHunks(
+        targets[i].codeRange,
+        await getHunks(resolveCodePath(sourceUri, targets[i]))
+      );
+      if (codeRange != null) {
+        anchored = withCodeTarget(anchored, i, { ...targets[i], codeRange });
+      }
+    }
+    comments.push(anchored);
+  }
+  return { ...schema, comments };
+}
@@ -0,0 +1,149 @@
+// Git pre-commit hook: validates only the pins affected by staged changes,
+// using the staged (index) contents of every file instead of the working tree.
+
+import { promises as nodeFs } from "fs";
+import { URI, Utils } from "vscode-uri";
+import { TextDocument } from "vscode-languageserver-textdocument";
+
+import { CheckOptions, CheckResult } from "./check";
+import { buildRepoConfigPath, decodeRepoConfig, RepoConfig } from "./config";
+import { PROJECT_NAME } from "./constants";
+import { exists, getFs } from "./fsShim";
+import {
+  getHooksFolder,
+  getStagedPaths,
+  listIndexedPaths,
+  readStagedFile,
+} from "./git";
+import {
+  buildSchemaPath,
+  decodeSchema,
+  getCodeTargets,
+  getSourceRootRelativePath,
+  resolveCodePath,
+  schemaFileUriToSourceUri,
+} from "./schema";
+import { getErrorMessage } from "./utils";
+import { hasAnyTag, validate } from "./validation";
+
+const fs = getFs();
+
+// Marks hooks we wrote, so we don't overwrite a hook the user wrote themselves
+const HOOK_MARKER = `# Installed by ${PROJECT_NAME}`;
+
+export function preCommitHookScript(): string {
+  return [
+    "#!/bin/sh",
+    HOOK_MARKER,
+    "# Blocks the commit if any pin affected by the staged changes is broken.",
+    `if command -v ${PROJECT_NAME} >/dev/null 2>&1; then`,
+    `  exec ${PROJECT_NAME} check --staged`,
+    "fi",
+    `exec npx --no-install ${PROJECT_NAME} check --staged`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Write the pre-commit hook into the repository's hooks folder.
+ * Refuses to replace an existing hook that we did not write, unless force is set.
+ * @returns the uri of the installed hook
+ */
+export async function installPreCommitHook(
+  repoRoot: URI,
+  params: { force?: boolean } = {}
+): Promise<URI> {
+  const hooksFolder = await getHooksFolder(repoRoot);
+  const hookUri = Utils.joinPath(hooksFolder, "pre-commit");
+  if (!params.force && (await exists(hookUri))) {
+    const existing = (await fs.readFile(hookUri)).toString();
+    if (!existing.includes(HOOK_MARKER)) {
+      throw new Error(
+        `${hookUri.fsPath} already exists and was not installed by ${PROJECT_NAME}, use --force to replace it`
+      );
+    }
+  }
+  await fs.createDirectory(hooksFolder);
+  await fs.writeFile(hookUri, Buffer.from(preCommitHookScript()));
+  await nodeFs.chmod(hookUri.fsPath, 0o755);
+  return hookUri;
+}
+
+/**
+ * Validate the pins affected by staged changes against the staged contents.
+ * A pin is affected when its schema file, its comment file or its code file is staged.
+ * Only the affected pins are included in the schemas of the result.
+ * @param options like check, except that pins are not re-anchored: staged files are checked as they will be committed
+ */
+export async function checkStaged(
+  repoRoot: URI,
+  options: Omit<CheckOptions, "anchor"> = {}
+): Promise<CheckResult> {
+  const result: CheckResult = { saveRoot: repoRoot, files: [], failures: [] };
+  const staged = new Set(await getStagedPaths(repoRoot));
+  const relative = (uri: URI) => getSourceRootRelativePath(repoRoot, uri);
+  const loadStagedDocument = async (uri: URI) =>
+    TextDocument.create(
+      uri.toString(),
+      "text",
+      0,
+      await readStagedFile(repoRoot, relative(uri))
+    );
+
+  // The staged config applies to the staged schemas, and changing it affects every pin
+  const configUri = buildRepoConfigPath(repoRoot);
+  const configPath = relative(configUri);
+  const config: RepoConfig =
+    (await listIndexedPaths(repoRoot, configPath)).length > 0
+      ? decodeRepoConfig(await readStagedFile(repoRoot, configPath), configUri)
+      : {};
+
+  const schemaFolder = relative(buildSchemaPath(repoRoot));
+  for (const schemaPath of await listIndexedPaths(repoRoot, schemaFolder)) {
+    if (!schemaPath.endsWith(".json")) {
+      continue;
+    }
+    const schemaUri = Utils.joinPath(repoRoot, schemaPath);
+    const sourceUri = schemaFileUriToSourceUri(schemaUri);
+    try {
+      const schema = decodeSchema(
+        await readStagedFile(repoRoot, schemaPath),
+        sourceUri
+      );
+      const wholeFileAffected =
+        staged.has(schemaPath) ||
+        staged.has(relative(sourceUri)) ||
+        staged.has(configPath);
+      const comments = schema.comments.filter(
+        (comment) =>
+          hasAnyTag(comment, options.tags ?? []) &&
+          (wholeFileAffected ||
+            getCodeTargets(comment).some((target) =>
+              staged.has(relative(resolveCodePath(sourceUri, target)))
+            ))
+      );
+      if (comments.length === 0) {
+        continue;
+      }
+      const affectedSchema = { ...schema, comments };
+      const errors = await validate(
+        await loadStagedDocument(sourceUri),
+        affectedSchema,
+        {
+          loadDocument: loadStagedDocument,
+          normalization: config.normalization,
+          fuzzyThreshold: options.fuzzyThreshold,
+        }
+      );
+      result.files.push({
+        sourceUri,
+        schema: affectedSchema,
+        errors,
+        checkedPins: comments,
+      });
+    } catch (e) {
+      result.failures.push({ schemaUri, message: getErrorMessage(e) });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,814 @@
+// Language Server Protocol server over stdio, for editors other than VS Code.
+// It publishes the same diagnostics and quick fixes as the extension, provides hover and
+// go to definition, and exposes pin/unpin and pin details as workspace/executeCommand commands.
+
+import * as t from "io-ts";
+import {
+  CodeAction,
+  CodeActionKind,
+  Connection,
+  createConnection,
+  Diagnostic,
+  DiagnosticSeverity,
+  DidChangeWatchedFilesNotification,
+  Hover,
+  Location,
+  ProposedFeatures,
+  TextDocuments,
+  TextDocumentSyncKind,
+  TextEdit,
+} from "vscode-languageserver/node";
+import {
+  Position,
+  Range as LspRange,
+  TextDocument,
+} from "vscode-languageserver-textdocument";
+import { URI, Utils } from "vscode-uri";
+
+import { getCommentSyntax } from "./commentSyntax";
+import { CONFIG_FILE_NAME, loadRepoConfig } from "./config";
+import { formatSymbolPath } from "./symbols";
+import { describeHashedText } from "./storage";
+import { PROJECT_NAME } from "./constants";
+import {
+  addPinToSchema,
+  findSaveRoot,
+  getCodeRelativePath,
+  getCodeTargets,
+  getPinDetails,
+  getSourceRootRelativePath,
+  KNOWN_FOLDER_NAME,
+  listSchemaFiles,
+  loadSchema,
+  PIN_SEVERITIES,
+  resolveCodePath,
+  saveSchema,
+  schemaFileUriToSourceUri,
+  PinDetails,
+  updatePinDetails,
+  withAcceptedText,
+} from "./schema";
+import { getGitAuthor } from "./git";
+import {
+  CurrentComment,
+  CurrentFile,
+  emptySchema,
+  Normalization,
+  PinSeverity,
+  Range,
+  SymbolPath,
+} from "./types";
+import { getErrorMessage } from "./utils";
+import {
+  convertRangeToSchema,
+  convertRangeToVS,
+  describeError,
+  describeMoveFix,
+  ErrorType,
+  listAcceptFixes,
+  loadDocumentFromFs,
+  validate,
+  ValidationError,
+} from "./validation";
+
+export const LSP_COMMANDS = {
+  // Arguments: { commentUri, commentRange, codeUri, codeRange, severity?, rationale?, tags?, normalization? },
+  // ranges in LSP format
+  pin: `${PROJECT_NAME}.pin`,
+  // Arguments: { uri, id }, where uri is the file containing the pinned comment
+  unpin: `${PROJECT_NAME}.unpin`,
+  // Arguments: { uri, id, severity }, severity is one of error, warning, info, hint
+  setSeverity: `${PROJECT_NAME}.setSeverity`,
+  // Arguments: { uri, id, rationale?, tags?, normalization? }, an empty rationale removes it
+  setDetails: `${PROJECT_NAME}.setDetails`,
+  // Arguments: { uri, comment }, where comment replaces the pin with the same id
+  fixMovedComment: `${PROJECT_NAME}.fixMovedComment`,
+  // Arguments: { uri, id, targetIndex, codeRange, comment?, code? }, where codeRange is the current
+  // range of the code target in LSP format, and comment and code are the sides whose text is accepted
+  acceptCurrentText: `${PROJECT_NAME}.acceptCurrentText`,
+};
+
+// Command arguments come from the client, so their shape is checked before running a command.
+// Severity and comparison mode are checked by the commands, to name the expected values.
+const LspRangeArgument = t.type({
+  start: t.type({ line: t.number, character: t.number }),
+  end: t.type({ line: t.number, character: t.number }),
+});
+
+const PinDetailsArguments = t.partial({
+  severity: t.string,
+  normalization: t.string,
+  rationale: t.string,
+  tags: t.array(t.string),
+});
+
+const PinId = t.type({ uri: t.string, id: t.number });
+
+const PinArguments = t.intersection([
+  t.type({
+    commentUri: t.string,
+    commentRange: LspRangeArgument,
+    codeUri: t.string,
+    codeRange: LspRangeArgument,
+  }),
+  t.partial({
+    // Anchors the code to a symbol, e.g. from the client's textDocument/documentSymbol.
+    // The server can't look up symbols, so it validates the code range like other pins
+    codeSymbol: SymbolPath,
+  }),
+  PinDetailsArguments,
+]);
+export type PinArguments = t.TypeOf<typeof PinArguments>;
+
+const SetSeverityArguments = t.intersection([
+  PinId,
+  t.type({ severity: t.string }),
+]);
+
+const SetDetailsArguments = t.intersection([
+  PinId,
+  t.partial({
+    rationale: t.string,
+    tags: t.array(t.string),
+    normalization: t.string,
+  }),
+]);
+
+const FixMovedCommentArguments = t.type({
+  uri: t.string,
+  comment: CurrentComment,
+});
+
+const AcceptCurrentTextArguments = t.intersection([
+  PinId,
+  t.type({ targetIndex: t.number, codeRange: LspRangeArgument }),
+  t.partial({ comment: t.boolean, code: t.boolean }),
+]);
+
+function decodeArguments<A>(
+  command: string,
+  codec: t.Type<A, unknown>,
+  arg: unknown
+): A {
+  if (!codec.is(arg)) {
+    throw new Error(`Invalid arguments for ${command}`);
+  }
+  return arg;
+}
+
+const DIAGNOSTIC_SEVERITIES: { [key in PinSeverity]: DiagnosticSeverity } = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+function checkSeverity(
+  severity: string | undefined
+): asserts severity is PinSeverity | undefined {
+  if (severity != null && !PIN_SEVERITIES.includes(severity as PinSeverity)) {
+    throw new Error(
+      `Unknown severity ${severity}, expected one of ${PIN_SEVERITIES.join(
+        ", "
+      )}`
+    );
+  }
+}
+
+function checkNormalization(
+  normalization: string | undefined
+): asserts normalization is Normalization | undefined {
+  if (normalization != null && !Normalization.is(normalization)) {
+    throw new Error(`Unknown comparison mode ${normalization}`);
+  }
+}
+
+function detailLines(comment: CurrentComment): string[] {
+  return getPinDetails(comment).map(
+    ({ label, value }) => `**${label}**: ${value}`
+  );
+}
+
+function rangeContains(range: Range, position: Position): boolean {
+  const { line, character } = position;
+  const afterStart =
+    line > range.start.line ||
+    (line === range.start.line && character >= range.start.char);
+  const beforeEnd =
+    line < range.end.line ||
+    (line === range.end.line && character <= range.end.char);
+  return afterStart && beforeEnd;
+}
+
+/**
+ * The editor-independent part of the language server.
+ * Schemas are read from disk on first use of each save root and cached until invalidate is called.
+ */
+export class PinLanguageService {
+  private schemasBySaveRoot = new Map<
+    string,
+    Promise<Map<string, CurrentFile>>
+  >();
+  // Hash of each cached schema file when it was last read or written, by source file uri
+  private schemaHashes = new Map<string, string>();
+
+  constructor(
+    // Returns the document if it is open in the editor, so unsaved text is validated
+    private getOpenDocument: (uri: string) => TextDocument | undefined,
+    private workspaceFolders: URI[] = [],
+    private params: {
+      fuzzyThreshold?: number;
+      // Only validate the pins with at least one of these tags
+      tags?: string[];
+      log?: (message: string) => void;
+    } = {}
+  ) {}
+
+  loadDocument = async (uri: URI): Promise<TextDocument> =>
+    this.getOpenDocument(uri.toString()) || loadDocumentFromFs(uri);
+
+  invalidate() {
+    this.schemasBySaveRoot.clear();
+    this.schemaHashes.clear();
+  }
+
+  private async loadSaveRoot(saveRoot: URI) {
+    const schemas = new Map<string, CurrentFile>();
+    for (const schemaUri of await listSchemaFiles(saveRoot)) {
+      const sourceUri = schemaFileUriToSourceUri(schemaUri);
+      try {
+        const loaded = await loadSchema(saveRoot, sourceUri);
+        if (loaded != null) {
+          schemas.set(sourceUri.toString(), loaded.schema);
+          this.schemaHashes.set(sourceUri.toString(), loaded.hash);
+        }
+      } catch (e) {
+        this.params.log?.(
+          `Could not load ${schemaUri.fsPath}: ${getErrorMessage(e)}`
+        );
+      }
+    }
+    return schemas;
+  }
+
+  /**
+   * All schemas in the save root of the uri, keyed by the uri of their source file.
+   */
+  async getSchemas(uri: URI) {
+    const saveRoot = await findSaveRoot(uri, this.workspaceFolders);
+    const key = saveRoot.toString();
+    if (!this.schemasBySaveRoot.has(key)) {
+      this.schemasBySaveRoot.set(key, this.loadSaveRoot(saveRoot));
+    }
+    return { saveRoot, schemas: await this.schemasBySaveRoot.get(key)! };
+  }
+
+  async getSchema(uri: URI) {
+    const { saveRoot, schemas } = await this.getSchemas(uri);
+    return {
+      saveRoot,
+      schema: schemas.get(uri.toString()) || emptySchema(),
+    };
+  }
+
+  // A copy of the schema to change, so the cache only changes once saveSchema saved it
+  private async getSchemaToUpdate(uri: URI): Promise<CurrentFile> {
+    const { schema } = await this.getSchema(uri);
+    return {
+      ...schema,
+      configuration: { ...schema.configuration },
+      comments: [...schema.comments],
+    };
+  }
+
+  // Like the extension, refuse to overwrite a schema file which changed since it was read,
+  // e.g. by a git pull or the command line, and drop the stale cache instead
+  private async saveSchema(uri: URI, schema: CurrentFile) {
+    const { saveRoot, schemas } = await this.getSchemas(uri);
+    const onDisk = await loadSchema(saveRoot, uri);
+    if (onDisk?.hash !== this.schemaHashes.get(uri.toString())) {
+      this.invalidate();
+      throw new Error(
+        `Schema for ${uri.fsPath} changed outside the editor, try again`
+      );
+    }
+    const saved = await saveSchema(saveRoot, uri, schema);
+    schemas.set(uri.toString(), saved.schema);
+    this.schemaHashes.set(uri.toString(), saved.hash);
+  }
+
+  async getDiagnostics(uri: string): Promise<Diagnostic[]> {
+    const sourceUri = URI.parse(uri);
+    const { saveRoot, schema } = await this.getSchema(sourceUri);
+    const { normalization } = await loadRepoConfig(saveRoot);
+    const errors = await validate(await this.loadDocument(sourceUri), schema, {
+      loadDocument: this.loadDocument,
+      fuzzyThreshold: this.params.fuzzyThreshold,
+      tags: this.params.tags,
+      normalization,
+    });
+    return errors.map((error) => ({
+      range: convertRangeToVS(error.commentRange),
+      message: describeError(error),
+      severity: DIAGNOSTIC_SEVERITIES[error.severity],
+      source: PROJECT_NAME,
+      code: error.commentId,
+      // The code actions read the error back from the diagnostic
+      data: error,
+    }));
+  }
+
+  /**
+   * Uris of the files whose diagnostics depend on the file: itself,
+   * and every file with a comment pinned to code in it.
+   */
+  async getDependentUris(uri: string): Promise<string[]> {
+    const { schemas } = await this.getSchemas(URI.parse(uri));
+    const uris = new Set([uri]);
+    for (const [sourceUri, schema] of schemas) {
+      const pinsCodeInFile = schema.comments.some((comment) =>
+        getCodeTargets(comment).some(
+          (target) =>
+            resolveCodePath(URI.parse(sourceUri), target).toString() === uri
+        )
+      );
+      if (pinsCodeInFile) {
+        uris.add(sourceUri);
+      }
+    }
+    return [...uris];
+  }
+
+  getCodeActions(uri: string, diagnostics: Diagnostic[]): CodeAction[] {
+    const codeActions: CodeAction[] = [];
+    const makeEditAction = (
+      title: string,
+      editUri: string,
+      range: LspRange,
+      newText: string
+    ): CodeAction => ({
+      title,
+      kind: CodeActionKind.QuickFix,
+      edit: { changes: { [editUri]: [TextEdit.replace(range, newText)] } },
+    });
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.source !== PROJECT_NAME || diagnostic.data == null) {
+        continue;
+      }
+      const error = diagnostic.data as ValidationError;
+      const { errorType } = error;
+      if (error.moveFix) {
+        codeActions.push({
+          title: describeMoveFix(error),
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          isPreferred: true,
+          command: {
+            title: "Fix moved comment",
+            command: LSP_COMMANDS.fixMovedComment,
+            arguments: [
+              { uri: error.commentUriString, comment: error.moveFix },
+            ],
+          },
+        });
+      }
+      // For text mismatches, offer to change the text back to the value in the schema,
+      // unless only its hash is stored
+      if (
+        (errorType === ErrorType.CommentMismatch ||
+          errorType === ErrorType.BothMismatch) &&
+        error.expected.commentHash == null
+      ) {
+        codeActions.push(
+          makeEditAction(
+            `Change comment to "${error.expected.comment}"`,
+            uri,
+            diagnostic.range,
+            error.expected.comment
+          )
+        );
+      }
+      if (
+        (errorType === ErrorType.CodeMismatch ||
+          errorType === ErrorType.BothMismatch) &&
+        error.expected.codeHash == null
+      ) {
+        codeActions.push(
+          makeEditAction(
+            `Change code to "${error.expected.code}"`,
+            error.codeLocation.uriString,
+            convertRangeToVS(error.codeLocation.range),
+            error.expected.code
+          )
+        );
+      }
+      // Or keep the document, and update the pin to its current text
+      for (const fix of listAcceptFixes(error)) {
+        codeActions.push({
+          title: fix.title,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          command: {
+            title: fix.title,
+            command: LSP_COMMANDS.acceptCurrentText,
+            arguments: [
+              {
+                uri: error.commentUriString,
+                id: error.commentId,
+                targetIndex: error.targetIndex,
+                codeRange: convertRangeToVS(error.codeLocation.range),
+                comment: fix.comment,
+                code: fix.code,
+              },
+            ],
+          },
+        });
+      }
+    }
+    return codeActions;
+  }
+
+  /**
+   * Pins in the save root of the uri, with the uri of the file containing each comment.
+   */
+  private async getAllPins(uri: string) {
+    const { saveRoot, schemas } = await this.getSchemas(URI.parse(uri));
+    const pins: { sourceUri: URI; comment: CurrentComment }[] = [];
+    for (const [sourceUri, schema] of schemas) {
+      for (const comment of schema.comments) {
+        pins.push({ sourceUri: URI.parse(sourceUri), comment });
+      }
+    }
+    return { saveRoot, pins };
+  }
+
+  // Hovering on a comment shows its code, hovering on code shows its comment
+  async getHover(uri: string, position: Position): Promise<Hover | null> {
+    const { saveRoot, pins } = await this.getAllPins(uri);
+    for (const { sourceUri, comment } of pins) {
+      const targets = getCodeTargets(comment);
+      if (
+        sourceUri.toString() === uri &&
+        rangeContains(comment.commentRange, position)
+      ) {
+        const codeLines = targets.map((target) => {
+          const codeUri = resolveCodePath(sourceUri, target);
+          const location =
+            codeUri.toString() === uri
+              ? ""
+              : ` (${getSourceRootRelativePath(saveRoot, codeUri)}:${
+                  target.codeRange.start.line + 1
+                })`;
+          const symbol =
+            target.codeSymbol != null
+              ? ` (${formatSymbolPath(target.codeSymbol)})`
+              : "";
+          return `**Code**${location}${symbol}: ${
+            target.codeHash != null
+              ? describeHashedText(target.codeValue, target.codeHash)
+              : `\`${target.codeValue}\``
+          }`;
+        });
+        return {
+          contents: {
+            kind: "markdown",
+            value: [...codeLines, ...detailLines(comment)].join("\n\n"),
+          },
+          range: convertRangeToVS(comment.commentRange),
+        };
+      }
+      for (const target of targets) {
+        if (
+          resolveCodePath(sourceUri, target).toString() === uri &&
+          rangeContains(target.codeRange, position)
+        ) {
+          return {
+            contents: {
+              kind: "markdown",
+              value: [
+                `**Comment**: ${
+                  comment.commentHash != null
+                    ? describeHashedText(
+                        comment.commentValue,
+                        comment.commentHash
+                      )
+                    : comment.commentValue
+                }`,
+                ...detailLines(comment),
+              ].join("\n\n"),
+            },
+            range: convertRangeToVS(target.codeRange),
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  // From a comment to its code in other files, and from code to its comments in other files
+  async getDefinition(uri: string, position: Position): Promise<Location[]> {
+    const { pins } = await this.getAllPins(uri);
+    const locations: Location[] = [];
+    for (const { sourceUri, comment } of pins) {
+      const targets = getCodeTargets(comment).map((target) => ({
+        uri: resolveCodePath(sourceUri, target).toString(),
+        range: convertRangeToVS(target.codeRange),
+        contains: rangeContains(target.codeRange, position),
+      }));
+      if (
+        sourceUri.toString() === uri &&
+        rangeContains(comment.commentRange, position)
+      ) {
+        locations.push(
+          ...targets
+            .filter((target) => target.uri !== uri)
+            .map(({ uri, range }) => Location.create(uri, range))
+        );
+      } else if (
+        sourceUri.toString() !== uri &&
+        targets.some((target) => target.uri === uri && target.contains)
+      ) {
+        locations.push(
+          Location.create(
+            sourceUri.toString(),
+            convertRangeToVS(comment.commentRange)
+          )
+        );
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * Run one of LSP_COMMANDS.
+   * @returns the uri of the file whose schema was changed
+   */
+  async executeCommand(command: string, args: unknown[] = []): Promise<string> {
+    const [arg] = args;
+    if (command === LSP_COMMANDS.pin) {
+      return this.pin(decodeArguments(command, PinArguments, arg));
+    } else if (command === LSP_COMMANDS.unpin) {
+      return this.unpin(decodeArguments(command, PinId, arg));
+    } else if (command === LSP_COMMANDS.setSeverity) {
+      return this.setSeverity(
+        decodeArguments(command, SetSeverityArguments, arg)
+      );
+    } else if (command === LSP_COMMANDS.setDetails) {
+      return this.setDetails(
+        decodeArguments(command, SetDetailsArguments, arg)
+      );
+    } else if (command === LSP_COMMANDS.fixMovedComment) {
+      return this.fixMovedComment(
+        decodeArguments(command, FixMovedCommentArguments, arg)
+      );
+    } else if (command === LSP_COMMANDS.acceptCurrentText) {
+      return this.acceptCurrentText(
+        decodeArguments(command, AcceptCurrentTextArguments, arg)
+      );
+    }
+    throw new Error(`Unknown command ${command}`);
+  }
+
+  async pin(args: PinArguments): Promise<string> {
+    checkSeverity(args.severity);
+    checkNormalization(args.normalization);
+    const commentUri = URI.parse(args.commentUri);
+    const codeUri = URI.parse(args.codeUri);
+    const commentDocument = await this.loadDocument(commentUri);
+    const codeDocument = await this.loadDocument(codeUri);
+    const schema = await this.getSchemaToUpdate(commentUri);
+    if (schema.configuration.lineComment == null) {
+      schema.configuration.lineComment =
+        getCommentSyntax({
+          languageId: commentDocument.languageId,
+          path: commentUri.path,
+        })?.lineComment ?? null;
+    }
+    addPinToSchema(
+      schema,
+      convertRangeToSchema(args.commentRange),
+      commentDocument.getText(args.commentRange),
+      {
+        codeRange: convertRangeToSchema(args.codeRange),
+        codeRelativePath: getCodeRelativePath(commentUri, codeUri),
+        codeValue: codeDocument.getText(args.codeRange),
+        ...(args.codeSymbol != null ? { codeSymbol: args.codeSymbol } : {}),
+      },
+      {
+        severity: args.severity,
+        rationale: args.rationale,
+        tags: args.tags,
+        normalization: args.normalization,
+        author: await getGitAuthor(Utils.dirname(commentUri)),
+      }
+    );
+    await this.saveSchema(commentUri, schema);
+    return args.commentUri;
+  }
+
+  async unpin(args: t.TypeOf<typeof PinId>): Promise<string> {
+    const uri = URI.parse(args.uri);
+    const schema = await this.getSchemaToUpdate(uri);
+    const index = schema.comments.findIndex((c) => c.id === args.id);
+    if (index === -1) {
+      throw new Error(`No pin with id ${args.id} in ${uri.fsPath}`);
+    }
+    schema.comments.splice(index, 1);
+    await this.saveSchema(uri, schema);
+    return args.uri;
+  }
+
+  async setSeverity(
+    args: t.TypeOf<typeof SetSeverityArguments>
+  ): Promise<string> {
+    checkSeverity(args.severity);
+    return this.updateDetails(args.uri, args.id, { severity: args.severity });
+  }
+
+  async setDetails(
+    args: t.TypeOf<typeof SetDetailsArguments>
+  ): Promise<string> {
+    checkNormalization(args.normalization);
+    return this.updateDetails(args.uri, args.id, {
+      rationale: args.rationale,
+      tags: args.tags,
+      normalization: args.normalization,
+    });
+  }
+
+  private async updateDetails(
+    uriString: string,
+    id: number,
+    details: PinDetails
+  ): Promise<string> {
+    const uri = URI.parse(uriString);
+    const schema = await this.getSchemaToUpdate(uri);
+    if (updatePinDetails(schema, id, details) == null) {
+      throw new Error(`No pin with id ${id} in ${uri.fsPath}`);
+    }
+    await this.saveSchema(uri, schema);
+    return uriString;
+  }
+
+  async fixMovedComment(
+    args: t.TypeOf<typeof FixMovedCommentArguments>
+  ): Promise<string> {
+    const uri = URI.parse(args.uri);
+    const schema = await this.getSchemaToUpdate(uri);
+    const index = schema.comments.findIndex((c) => c.id === args.comment.id);
+    if (index === -1) {
+      throw new Error("Old comment not found, cannot update");
+    }
+    schema.comments[index] = args.comment;
+    await this.saveSchema(uri, schema);
+    return args.uri;
+  }
+
+  async acceptCurrentText(
+    args: t.TypeOf<typeof AcceptCurrentTextArguments>
+  ): Promise<string> {
+    const uri = URI.parse(args.uri);
+    const schema = await this.getSchemaToUpdate(uri);
+    const index = schema.comments.findIndex((c) => c.id === args.id);
+    if (index === -1) {
+      throw new Error("Pin not found, cannot update");
+    }
+    const comment = schema.comments[index];
+    const target = getCodeTargets(comment)[args.targetIndex];
+    if (target == null) {
+      throw new Error(
+        `Pin ${args.id} has no code target ${args.targetIndex}, cannot update`
+      );
+    }
+    const commentDocument = await this.loadDocument(uri);
+    const codeDocument = await this.loadDocument(resolveCodePath(uri, target));
+    schema.comments[index] = withAcceptedText(comment, {
+      commentValue: args.comment
+        ? commentDocument.getText(convertRangeToVS(comment.commentRange))
+        : undefined,
+      code: args.code
+        ? {
+            targetIndex: args.targetIndex,
+            codeValue: codeDocument.getText(args.codeRange),
+            codeRange: convertRangeToSchema(args.codeRange),
+          }
+        : undefined,
+    });
+    await this.saveSchema(uri, schema);
+    return args.uri;
+  }
+}
+
+/**
+ * Start the language server on stdin and stdout.
+ * Initialization options: { fuzzyMatchThreshold?: number, tags?: string[] }
+ */
+export function startLanguageServer(
+  connection: Connection = createConnection(
+    ProposedFeatures.all,
+    process.stdin,
+    process.stdout
+  )
+) {
+  const documents = new TextDocuments(TextDocument);
+  let service = new PinLanguageService((uri) => documents.get(uri));
+  const log = (message: string) => connection.console.error(message);
+
+  const publishDiagnostics = async (uri: string) => {
+    try {
+      for (const dependentUri of await service.getDependentUris(uri)) {
+        connection.sendDiagnostics({
+          uri: dependentUri,
+          diagnostics: await service.getDiagnostics(dependentUri),
+        });
+      }
+    } catch (e) {
+      log(`Could not validate ${uri}: ${getErrorMessage(e)}`);
+    }
+  };
+
+  let canWatchFiles = false;
+
+  connection.onInitialize((params) => {
+    canWatchFiles =
+      params.capabilities.workspace?.didChangeWatchedFiles
+        ?.dynamicRegistration === true;
+    const workspaceFolders = (params.workspaceFolders || []).map((folder) =>
+      URI.parse(folder.uri)
+    );
+    if (workspaceFolders.length === 0 && params.rootUri) {
+      workspaceFolders.push(URI.parse(params.rootUri));
+    }
+    service = new PinLanguageService(
+      (uri) => documents.get(uri),
+      workspaceFolders,
+      {
+        fuzzyThreshold: params.initializationOptions?.fuzzyMatchThreshold,
+        tags: params.initializationOptions?.tags,
+        log,
+      }
+    );
+    return {
+      capabilities: {
+        // Like the extension, validate when a document is opened or saved
+        textDocumentSync: {
+          openClose: true,
+          change: TextDocumentSyncKind.Incremental,
+          save: true,
+        },
+        hoverProvider: true,
+        definitionProvider: true,
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+        executeCommandProvider: { commands: Object.values(LSP_COMMANDS) },
+      },
+    };
+  });
+
+  connection.onInitialized(() => {
+    // Clients only send changes of the files the server asked to watch
+    if (canWatchFiles) {
+      connection.client.register(DidChangeWatchedFilesNotification.type, {
+        watchers: [
+          { globPattern: `**/${KNOWN_FOLDER_NAME}/**` },
+          { globPattern: `**/${CONFIG_FILE_NAME}` },
+        ],
+      });
+    }
+  });
+
+  documents.onDidOpen((event) => publishDiagnostics(event.document.uri));
+  documents.onDidSave((event) => publishDiagnostics(event.document.uri));
+  // Schema files changed outside the server, e.g. by the command line or a git checkout
+  connection.onDidChangeWatchedFiles(async () => {
+    service.invalidate();
+    for (const document of documents.all()) {
+      await publishDiagnostics(document.uri);
+    }
+  });
+
+  connection.onHover((params) =>
+    service.getHover(params.textDocument.uri, params.position)
+  );
+  connection.onDefinition((params) =>
+    service.getDefinition(params.textDocument.uri, params.position)
+  );
+  connection.onCodeAction((params) =>
+    service.getCodeActions(params.textDocument.uri, params.context.diagnostics)
+  );
+  connection.onExecuteCommand(async (params) => {
+    try {
+      const changedUri = await service.executeCommand(
+        params.command,
+        params.arguments
+      );
+      await publishDiagnostics(changedUri);
+    } catch (e) {
+      connection.window.showErrorMessage(
+        `${PROJECT_NAME}: ${getErrorMessage(e)}`
+      );
+    }
+  });
+
+  documents.listen(connection);
+  connection.listen();
+}
@@ -0,0 +1,41 @@
+// Upgrades of schema files from older versions to the current version.
+// Each step upgrades one version to the next, and migrateToLatestFormat chains them,
+// so adding a version only needs one new step.
+
+import { CurrentFile, FileV1, FileV2, FileV3, TFile } from "./types";
+
+export function migrateV1ToV2(file: FileV1): FileV2 {
+  const maxId = Math.max(-1, ...file.comments.map((c) => c.id));
+  return {
+    version: 2,
+    configuration: { ...file.configuration, normalization: "exact" },
+    nextId: maxId + 1,
+    comments: file.comments.map((comment) => ({ ...comment, metadata: {} })),
+  };
+}
+
+// Who created older pins and when is unknown, so those fields stay empty.
+// Version 2 files always stored the exact mode, which was never chosen for the file,
+// so they use the mode of the repository instead.
+export function migrateV2ToV3(file: FileV2): FileV3 {
+  const { normalization } = file.configuration;
+  return {
+    ...file,
+    version: 3,
+    configuration: {
+      ...file.configuration,
+      normalization: normalization === "exact" ? null : normalization,
+    },
+    comments: file.comments.map((comment) => ({ ...comment, tags: [] })),
+  };
+}
+
+export function migrateToLatestFormat(file: TFile): CurrentFile {
+  if (file.version === 1) {
+    file = migrateV1ToV2(file);
+  }
+  if (file.version === 2) {
+    file = migrateV2ToV3(file);
+  }
+  return file;
+}
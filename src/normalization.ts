@@ -0,0 +1,50 @@
+// Comparison modes of pinned text, see Normalization in types.ts.
+
+import { normalizeWhitespace } from "./fuzzy";
+import { CurrentComment, CurrentFile, Normalization } from "./types";
+
+/**
+ * The comparison mode of a pin: its own mode, otherwise the mode of its schema file,
+ * otherwise the mode of the repository, otherwise exact.
+ */
+export function getNormalization(
+  comment: CurrentComment,
+  schema: CurrentFile,
+  repoNormalization?: Normalization
+): Normalization {
+  return (
+    comment.normalization ||
+    schema.configuration.normalization ||
+    repoNormalization ||
+    "exact"
+  );
+}
+
+/**
+ * The text which is compared with pinned text in the comparison mode.
+ * @param lineComment the line comment marker of the schema file, ignored by the comment mode
+ */
+export function normalizeText(
+  text: string,
+  normalization: Normalization,
+  lineComment: string | null
+): string {
+  const lines = text.split(/\r?\n/);
+  switch (normalization) {
+    case "exact":
+      return text;
+    case "trim":
+      return lines.map((line) => line.trim()).join("\n");
+    case "whitespace":
+      return normalizeWhitespace(text);
+    case "comment":
+      return lines
+        .map((line) => {
+          const trimmed = line.trim();
+          return lineComment && trimmed.startsWith(lineComment)
+            ? trimmed.slice(lineComment.length).trim()
+            : trimmed;
+        })
+        .join("\n");
+  }
+}
@@ -0,0 +1,157 @@
+// Renames of source files and folders. The schema of a renamed file is moved to its new path,
+// and the code paths of pins in any file which point into the renamed file are rewritten.
+// The VS Code extension does this for renames in the editor, the mv command of the command
+// line program for renames made elsewhere, like with git mv.
+
+import { URI } from "vscode-uri";
+
+import { getFs } from "./fsShim";
+import {
+  findSchemaPath,
+  getCodeRelativePath,
+  getCodeTargets,
+  listSchemaFiles,
+  loadSchema,
+  resolveCodePath,
+  saveSchema,
+  schemaFileUriToSourceUri,
+  withCodeTarget,
+} from "./schema";
+import { CurrentComment, CurrentFile } from "./types";
+
+const fs = getFs();
+
+export type SourceRename = { from: URI; to: URI };
+
+/**
+ * The new uri of the file after renaming from to to, which may also be a folder containing it.
+ * Returns null if the file is not affected by the rename.
+ */
+export function renamedUri(uri: URI, from: URI, to: URI): URI | null {
+  if (uri.path === from.path) {
+    return to;
+  }
+  const folder = from.path.endsWith("/") ? from.path : `${from.path}/`;
+  if (uri.path.startsWith(folder)) {
+    return to.with({
+      path: `${to.path.replace(/\/$/, "")}/${uri.path.slice(folder.length)}`,
+    });
+  }
+  return null;
+}
+
+/**
+ * Update the schemas for the rename by updating the map in place.
+ * Schemas of renamed files are moved to their new key, and code paths are rewritten.
+ * Throws an error if a renamed file would replace a file which already has a schema.
+ * @param schemas schemas of a save root by the uri string of their source file
+ * @returns the schemas that moved, and the source uris of all schemas that changed
+ */
+export function renameInSchemas(
+  schemas: Map<string, CurrentFile>,
+  from: URI,
+  to: URI
+): { moved: SourceRename[]; changed: URI[] } {
+  const moved: SourceRename[] = [];
+  for (const key of schemas.keys()) {
+    const newUri = renamedUri(URI.parse(key), from, to);
+    if (newUri != null) {
+      moved.push({ from: URI.parse(key), to: newUri });
+    }
+  }
+  const movedKeys = new Set(moved.map((m) => m.from.toString()));
+  for (const { to: newUri } of moved) {
+    if (schemas.has(newUri.toString()) && !movedKeys.has(newUri.toString())) {
+      throw new Error(`${newUri.path} already has a schema`);
+    }
+  }
+
+  const changed: URI[] = [];
+  const updated = new Map<string, CurrentFile>();
+  for (const [key, schema] of schemas) {
+    const sourceUri = URI.parse(key);
+    const newSourceUri = renamedUri(sourceUri, from, to) ?? sourceUri;
+    let isChanged = newSourceUri !== sourceUri;
+    const comments = schema.comments.map((comment) =>
+      getCodeTargets(comment).reduce<CurrentComment>(
+        (updatedComment, target, index) => {
+          const codeUri = resolveCodePath(sourceUri, target);
+          const codeRelativePath = getCodeRelativePath(
+            newSourceUri,
+            renamedUri(codeUri, from, to) ?? codeUri
+          );
+          if (codeRelativePath === target.codeRelativePath) {
+            return updatedComment;
+          }
+          isChanged = true;
+          return withCodeTarget(updatedComment, index, {
+            ...target,
+            codeRelativePath,
+          });
+        },
+        comment
+      )
+    );
+    updated.set(newSourceUri.toString(), { ...schema, comments });
+    if (isChanged) {
+      changed.push(newSourceUri);
+    }
+  }
+  schemas.clear();
+  for (const [key, schema] of updated) {
+    schemas.set(key, schema);
+  }
+  return { moved, changed };
+}
+
+/**
+ * Update the schema files of the save root for a source file or folder which was renamed
+ * outside of an editor. Moved schemas are saved at their new path before their old schema
+ * files are deleted, so an interrupted rename loses no pins. With dryRun, nothing is written.
+ * @param params.moveSource also rename the source file or folder, once the schemas are known
+ * to have no conflicts with the new path
+ */
+export async function renameSourceFiles(
+  saveRoot: URI,
+  from: URI,
+  to: URI,
+  params: { dryRun?: boolean; moveSource?: boolean } = {}
+): Promise<{ moved: SourceRename[]; changed: URI[] }> {
+  const schemas = new Map<string, CurrentFile>();
+  for (const schemaUri of await listSchemaFiles(saveRoot)) {
+    const sourceUri = schemaFileUriToSourceUri(schemaUri);
+    if (!schemas.has(sourceUri.toString())) {
+      const loaded = await loadSchema(saveRoot, sourceUri);
+      schemas.set(sourceUri.toString(), loaded!.schema);
+    }
+  }
+  const result = renameInSchemas(schemas, from, to);
+  if (!params.dryRun) {
+    const oldSchemaUris: URI[] = [];
+    for (const { from: oldSourceUri } of result.moved) {
+      const oldSchemaUri = await findSchemaPath(saveRoot, oldSourceUri);
+      if (oldSchemaUri != null) {
+        oldSchemaUris.push(oldSchemaUri);
+      }
+    }
+    if (params.moveSource) {
+      await fs.rename(from, to);
+    }
+    const savedPaths = new Set<string>();
+    for (const sourceUri of result.changed) {
+      const { saveUri } = await saveSchema(
+        saveRoot,
+        sourceUri,
+        schemas.get(sourceUri.toString())!
+      );
+      savedPaths.add(saveUri.path);
+    }
+    // A moved schema may have been saved where another moved schema used to be
+    for (const oldSchemaUri of oldSchemaUris) {
+      if (!savedPaths.has(oldSchemaUri.path)) {
+        await fs.delete(oldSchemaUri);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,291 @@
+// Writers which serialize check results into formats that other tools can read:
+// plain JSON, SARIF 2.1 (code scanning) and JUnit XML (CI test dashboards).
+
+import { URI } from "vscode-uri";
+
+import { CheckResult } from "./check";
+import { PROJECT_NAME } from "./constants";
+import { getSourceRootRelativePath, isAtLeastAsSevere } from "./schema";
+import { PinSeverity, Range as SchemaRange } from "./types";
+import { describeError, ErrorType, ValidationError } from "./validation";
+
+export type ReportFormat = "json" | "sarif" | "junit";
+export const REPORT_FORMATS: ReportFormat[] = ["json", "sarif", "junit"];
+
+const INFORMATION_URI = "https://github.com/pelmers/code-couplet";
+
+const RULE_DESCRIPTIONS: { [key in ErrorType]: string } = {
+  [ErrorType.CommentMismatch]:
+    "The pinned comment text does not match the schema",
+  [ErrorType.CodeMismatch]: "The pinned code does not match the schema",
+  [ErrorType.BothMismatch]:
+    "Both the pinned comment and code do not match the schema",
+  [ErrorType.SymbolNotFound]:
+    "The symbol which the pinned code is anchored to was not found",
+};
+
+// SARIF has no level below note
+const SARIF_LEVELS: { [key in PinSeverity]: string } = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+  hint: "note",
+};
+
+function ruleId(errorType: ErrorType): string {
+  return ErrorType[errorType];
+}
+
+function relativePath(saveRoot: URI, uriString: string): string {
+  return getSourceRootRelativePath(saveRoot, URI.parse(uriString));
+}
+
+/**
+ * @param failOn the least severe pin severity which fails, like the exit code of check
+ */
+export function writeReport(
+  format: ReportFormat,
+  results: CheckResult[],
+  failOn: PinSeverity = "error"
+): string {
+  switch (format) {
+    case "json":
+      return toJsonReport(results);
+    case "sarif":
+      return toSarifReport(results);
+    case "junit":
+      return toJUnitReport(results, failOn);
+  }
+}
+
+/**
+ * Plain JSON report, one entry per save root and per checked file.
+ * Paths are relative to the save root.
+ */
+export function toJsonReport(results: CheckResult[]): string {
+  const report = {
+    tool: PROJECT_NAME,
+    results: results.map(({ saveRoot, files, failures }) => ({
+      saveRoot: saveRoot.fsPath,
+      files: files.map(({ sourceUri, errors, checkedPins }) => ({
+        path: getSourceRootRelativePath(saveRoot, sourceUri),
+        pinCount: checkedPins.length,
+        errors: errors.map((error) => ({
+          commentId: error.commentId,
+          errorType: ruleId(error.errorType),
+          severity: error.severity,
+          message: describeError(error),
+          comment: {
+            path: relativePath(saveRoot, error.commentUriString),
+            range: error.commentRange,
+          },
+          code: {
+            path: relativePath(saveRoot, error.codeLocation.uriString),
+            range: error.codeLocation.range,
+            targetIndex: error.targetIndex,
+          },
+          expected: error.expected,
+          actual: error.actual,
+          hasMoveFix: error.moveFix != null,
+          moveFixConfidence: error.moveFixConfidence ?? null,
+        })),
+      })),
+      failures: failures.map(({ schemaUri, message }) => ({
+        schemaPath: getSourceRootRelativePath(saveRoot, schemaUri),
+        message,
+      })),
+    })),
+  };
+  return JSON.stringify(report, null, 2);
+}
+
+// SARIF lines and columns are 1-based, schema positions are 0-based
+function sarifRegion(range: SchemaRange) {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.char + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.char + 1,
+  };
+}
+
+function sarifLocation(saveRoot: URI, uriString: string, range: SchemaRange) {
+  return {
+    physicalLocation: {
+      artifactLocation: {
+        uri: relativePath(saveRoot, uriString),
+        uriBaseId: "SRCROOT",
+      },
+      region: sarifRegion(range),
+    },
+  };
+}
+
+function sarifResult(saveRoot: URI, error: ValidationError, rules: string[]) {
+  return {
+    ruleId: ruleId(error.errorType),
+    ruleIndex: rules.indexOf(ruleId(error.errorType)),
+    level: SARIF_LEVELS[error.severity],
+    message: { text: describeError(error) },
+    locations: [
+      sarifLocation(saveRoot, error.commentUriString, error.commentRange),
+    ],
+    relatedLocations: [
+      {
+        id: 1,
+        ...sarifLocation(
+          saveRoot,
+          error.codeLocation.uriString,
+          error.codeLocation.range
+        ),
+        message: { text: "Pinned code" },
+      },
+    ],
+  };
+}
+
+/**
+ * SARIF 2.1.0 report with one run per save root.
+ * Each result points at the comment, and at the pinned code as a related location.
+ * Schema files that could not be loaded are reported as tool execution notifications.
+ */
+export function toSarifReport(results: CheckResult[]): string {
+  const errorTypes = Object.keys(RULE_DESCRIPTIONS).map(
+    (key) => Number(key) as ErrorType
+  );
+  const rules = errorTypes.map(ruleId);
+  const report = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: results.map(({ saveRoot, files, failures }) => ({
+      tool: {
+        driver: {
+          name: PROJECT_NAME,
+          informationUri: INFORMATION_URI,
+          rules: errorTypes.map((errorType) => ({
+            id: ruleId(errorType),
+            shortDescription: { text: RULE_DESCRIPTIONS[errorType] },
+          })),
+        },
+      },
+      originalUriBaseIds: {
+        SRCROOT: { uri: `${saveRoot.toString()}/` },
+      },
+      invocations: [
+        {
+          executionSuccessful: failures.length === 0,
+          toolExecutionNotifications: failures.map(
+            ({ schemaUri, message }) => ({
+              level: "error",
+              message: { text: message },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: {
+                      uri: getSourceRootRelativePath(saveRoot, schemaUri),
+                      uriBaseId: "SRCROOT",
+                    },
+                  },
+                },
+              ],
+            })
+          ),
+        },
+      ],
+      results: files.flatMap(({ errors }) =>
+        errors.map((error) => sarifResult(saveRoot, error, rules))
+      ),
+    })),
+  };
+  return JSON.stringify(report, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+      // Keep newlines when the text is used in an attribute value
+      .replace(/\n/g, "&#10;")
+  );
+}
+
+/**
+ * JUnit XML report with one test suite per source file and one test case per checked pin.
+ * Only broken pins at least as severe as failOn fail, the others pass with their messages as output.
+ */
+export function toJUnitReport(
+  results: CheckResult[],
+  failOn: PinSeverity = "error"
+): string {
+  const fails = (error: ValidationError) =>
+    isAtLeastAsSevere(error.severity, failOn);
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+  let totalErrors = 0;
+  for (const { saveRoot, files, failures } of results) {
+    for (const { sourceUri, errors, checkedPins } of files) {
+      const suiteName = escapeXml(
+        getSourceRootRelativePath(saveRoot, sourceUri)
+      );
+      const cases = checkedPins.map((comment) => {
+        const name = escapeXml(
+          `pin ${comment.id} (line ${comment.commentRange.start.line + 1})`
+        );
+        // A pin has one error for each of its drifted code targets
+        const pinErrors = errors.filter((e) => e.commentId === comment.id);
+        if (pinErrors.length === 0) {
+          return `    <testcase classname="${suiteName}" name="${name}"/>`;
+        }
+        const message = escapeXml(pinErrors.map(describeError).join("\n"));
+        const result = fails(pinErrors[0])
+          ? `      <failure type="${ruleId(
+              pinErrors[0].errorType
+            )}" message="${message}">${message}</failure>`
+          : `      <system-out>${pinErrors[0].severity}: ${message}</system-out>`;
+        return [
+          `    <testcase classname="${suiteName}" name="${name}">`,
+          result,
+          `    </testcase>`,
+        ].join("\n");
+      });
+      const failureCount = new Set(errors.filter(fails).map((e) => e.commentId))
+        .size;
+      totalTests += checkedPins.length;
+      totalFailures += failureCount;
+      suites.push(
+        [
+          `  <testsuite name="${suiteName}" tests="${checkedPins.length}" failures="${failureCount}" errors="0">`,
+          ...cases,
+          `  </testsuite>`,
+        ].join("\n")
+      );
+    }
+    // Schemas that could not be checked at all are reported as errors
+    for (const { schemaUri, message } of failures) {
+      const name = escapeXml(getSourceRootRelativePath(saveRoot, schemaUri));
+      totalTests++;
+      totalErrors++;
+      suites.push(
+        [
+          `  <testsuite name="${name}" tests="1" failures="0" errors="1">`,
+          `    <testcase classname="${name}" name="load schema">`,
+          `      <error message="${escapeXml(message)}"/>`,
+          `    </testcase>`,
+          `  </testsuite>`,
+        ].join("\n")
+      );
+    }
+  }
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${PROJECT_NAME}" tests="${totalTests}" failures="${totalFailures}" errors="${totalErrors}">`,
+    ...suites,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
@@ -1,4 +1,18 @@
-import { File, CurrentFile, TFile, CurrentComment } from "./types";
+import {
+  File,
+  CurrentFile,
+  TFile,
+  CurrentComment,
+  CodeTarget,
+  Range,
+  PinSeverity,
+  Normalization,
+} from "./types";
+import { SCHEMA_VERSION } from "./constants";
+import { migrateToLatestFormat } from "./migrations";
+import { getCommentSyntax } from "./commentSyntax";
+import { loadRepoConfig } from "./config";
+import { storeHashes } from "./storage";
 import { URI, Utils } from "vscode-uri";
 import { exists, FileType, getFs } from "./fsShim";
 import { isRight } from "fp-ts/lib/Either";
@@ -10,8 +24,10 @@ import * as crypto from "crypto";
 
 const fs = getFs();
 
-const PATH_TRANSFORM_FRAGMENT = "cCCc";
-const KNOWN_FOLDER_NAME = ".code-couplet";
+// Replaced / in the schema file names of the legacy flat layout
+const LEGACY_PATH_SEPARATOR = "cCCc";
+export const KNOWN_FOLDER_NAME = ".code-couplet";
+const SCHEMA_EXTENSION = ".json";
 
 const saveRootCache = new Map<string, URI>();
 
@@ -101,49 +117,167 @@ export const findSaveRoot = async (
   }
 };
 
+// Escape one component of a source path for its schema path, so that unescaping is lossless.
+// % is percent-encoded first, then:
+// - the legacy separator, so a schema file name containing it is always in the legacy layout
+// - the extension of directories named like schema files, so they can't collide with the
+//   schema file of a sibling, e.g. the directory "a.json" and the schema of the file "a"
+function escapePathComponent(name: string, isDirectory: boolean): string {
+  let escaped = name
+    .replace(/%/g, "%25")
+    .replace(new RegExp(LEGACY_PATH_SEPARATOR, "g"), "%63CCc");
+  if (isDirectory && escaped.endsWith(SCHEMA_EXTENSION)) {
+    escaped = escaped.slice(0, -SCHEMA_EXTENSION.length) + "%2Ejson";
+  }
+  return escaped;
+}
+
+function unescapePathComponent(escaped: string): string {
+  return escaped.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+}
+
+// Path of the source file relative to the save root
+function sourceRelativePath(saveRoot: URI, sourceURI: URI): string {
+  // Remove the first part of sourcePath which overlaps saveRoot and the trailing slash
+  return sourceURI.path.slice(saveRoot.path.length + 1);
+}
+
 /**
- * Join save root and relative source file path into a path to its schema file
- * If the sourcePath is not located under saveRoot, then throw an error.
+ * Join save root and relative source file path into a path to its schema file.
+ * The schema folder mirrors the source tree, e.g. src/foo.ts is stored in .code-couplet/src/foo.ts.json
+ * Without sourceURI, returns the path to the schema folder.
  * Input saveRoot is the path to the workspace/repository root, computed by findSaveRoot.
  */
 export function buildSchemaPath(saveRoot: URI, sourceURI?: URI): URI {
   if (!sourceURI) {
     return Utils.joinPath(saveRoot, KNOWN_FOLDER_NAME);
   }
-  let sourcePath = sourceURI.path;
-  // Remove the first part of sourcePath which overlaps saveRoot and the trailing slash
-  sourcePath = sourcePath.slice(saveRoot.path.length + 1);
+  const components = sourceRelativePath(saveRoot, sourceURI).split("/");
+  const escaped = components.map((name, i) =>
+    escapePathComponent(name, i < components.length - 1)
+  );
+  escaped[escaped.length - 1] += SCHEMA_EXTENSION;
+  return Utils.joinPath(saveRoot, KNOWN_FOLDER_NAME, ...escaped);
+}
+
+/**
+ * Path to the schema file of the source file in the legacy flat layout,
+ * where every / of the source path was replaced by cCCc
+ */
+export function buildLegacySchemaPath(saveRoot: URI, sourceURI: URI): URI {
   const transformedSourcePath =
-    sourcePath.replace(/\//g, PATH_TRANSFORM_FRAGMENT) + ".json";
+    sourceRelativePath(saveRoot, sourceURI).replace(
+      /\//g,
+      LEGACY_PATH_SEPARATOR
+    ) + SCHEMA_EXTENSION;
   return Utils.joinPath(saveRoot, KNOWN_FOLDER_NAME, transformedSourcePath);
 }
 
+/**
+ * Find the existing schema file of the source file, preferring the current layout.
+ * Returns null if the source file has no schema file.
+ */
+export async function findSchemaPath(
+  saveRoot: URI,
+  sourceURI: URI
+): Promise<URI | null> {
+  for (const schemaPath of [
+    buildSchemaPath(saveRoot, sourceURI),
+    buildLegacySchemaPath(saveRoot, sourceURI),
+  ]) {
+    if (await exists(schemaPath)) {
+      return schemaPath;
+    }
+  }
+  return null;
+}
+
+// Inverse of buildSchemaPath and buildLegacySchemaPath
 export function schemaFileUriToSourceUri(schemaFileUri: URI) {
-  const sourcePath = schemaFileUri.path
-    .slice(
-      KNOWN_FOLDER_NAME.length +
-        schemaFileUri.path.lastIndexOf(KNOWN_FOLDER_NAME) +
-        1
-    )
-    .replace(/\.json$/, "")
-    .replace(new RegExp(PATH_TRANSFORM_FRAGMENT, "g"), "/");
-  // The schema file is in the folder under the root, so go up one more to reach root
-  const saveRoot = Utils.dirname(Utils.dirname(schemaFileUri));
+  const folderIndex = schemaFileUri.path.lastIndexOf(`/${KNOWN_FOLDER_NAME}/`);
+  const saveRoot = schemaFileUri.with({
+    path: schemaFileUri.path.slice(0, folderIndex),
+  });
+  const schemaPath = schemaFileUri.path.slice(
+    folderIndex + KNOWN_FOLDER_NAME.length + 2
+  );
+  const isLegacy =
+    !schemaPath.includes("/") && schemaPath.includes(LEGACY_PATH_SEPARATOR);
+  const sourcePath = isLegacy
+    ? schemaPath
+        .slice(0, -SCHEMA_EXTENSION.length)
+        .replace(new RegExp(LEGACY_PATH_SEPARATOR, "g"), "/")
+    : schemaPath
+        .slice(0, -SCHEMA_EXTENSION.length)
+        .split("/")
+        .map(unescapePathComponent)
+        .join("/");
   return Utils.joinPath(saveRoot, sourcePath);
 }
 
-// Save the comment schema to its map file, returns the URI of the saved path.
+/**
+ * List the URIs of all schema files stored under the given save root, in either layout.
+ * Returns an empty list if the save root has no schema folder.
+ */
+export async function listSchemaFiles(saveRoot: URI): Promise<URI[]> {
+  const schemaFolderUri = buildSchemaPath(saveRoot);
+  if (!(await exists(schemaFolderUri))) {
+    return [];
+  }
+  const schemaFiles: URI[] = [];
+  const visit = async (folder: URI) => {
+    for (const [name, typ] of await fs.readDirectory(folder)) {
+      const uri = Utils.joinPath(folder, name);
+      if (typ === FileType.Directory) {
+        await visit(uri);
+      } else if (typ === FileType.File && name.endsWith(SCHEMA_EXTENSION)) {
+        schemaFiles.push(uri);
+      }
+    }
+  };
+  await visit(schemaFolderUri);
+  return schemaFiles;
+}
+
+// The text that saveSchema writes for the schema
+export function serializeSchema(schema: CurrentFile): string {
+  return JSON.stringify(schema, null, 2);
+}
+
+// Save the comment schema to its map file, returns the URI of the saved path and the saved schema.
+// A schema file in the legacy layout is removed, so the schema is moved to the current layout.
+// When the repository stores hashes only, pinned text is replaced by hashes before saving.
 export async function saveSchema(
   saveRoot: URI,
   sourceFilePath: URI,
   schema: CurrentFile
-): Promise<{ saveUri: URI; hash: string }> {
+): Promise<{ saveUri: URI; hash: string; schema: CurrentFile }> {
+  const { storage, previewLength, normalization } = await loadRepoConfig(
+    saveRoot
+  );
+  if (storage === "hash") {
+    schema = storeHashes(schema, {
+      normalization,
+      previewLength,
+      lineComment:
+        schema.configuration.lineComment ??
+        getCommentSyntax({ path: sourceFilePath.path })?.lineComment,
+    });
+  }
   const saveUri = buildSchemaPath(saveRoot, sourceFilePath);
-  const contents = Buffer.from(JSON.stringify(schema, null, 2));
+  const contents = Buffer.from(serializeSchema(schema));
+  await fs.createDirectory(Utils.dirname(saveUri));
   await fs.writeFile(saveUri, contents);
+  const legacyUri = buildLegacySchemaPath(saveRoot, sourceFilePath);
+  if (legacyUri.path !== saveUri.path && (await exists(legacyUri))) {
+    await fs.delete(legacyUri);
+  }
   return {
     saveUri,
     hash: crypto.createHash("md5").update(contents.toString()).digest("hex"),
+    schema,
   };
 }
 
@@ -153,30 +287,356 @@ export async function loadSchema(
   saveRoot: URI,
   sourceFilePath: URI
 ): Promise<{ schema: CurrentFile; hash: string } | null> {
-  const schemaPath = buildSchemaPath(saveRoot, sourceFilePath);
-  if (!(await exists(schemaPath))) {
+  const schemaPath = await findSchemaPath(saveRoot, sourceFilePath);
+  if (schemaPath == null) {
     return null;
   }
 
   const contents = (await fs.readFile(schemaPath)).toString();
+  return {
+    schema: decodeSchema(contents, sourceFilePath),
+    hash: crypto.createHash("md5").update(contents).digest("hex"),
+  };
+}
+
+/**
+ * Decode the text contents of a schema file into the latest format.
+ * Throws an error if the contents are not a valid schema.
+ */
+export function decodeSchema(contents: string, sourceFilePath: URI) {
+  return migrateToLatestFormat(decodeAnyVersion(contents, sourceFilePath));
+}
+
+function decodeAnyVersion(contents: string, sourceFilePath: URI): TFile {
   // Parse contents with io-ts for File decoder
   const validation = File.decode(JSON.parse(contents));
   if (!isRight(validation)) {
     throw new Error(`Could not decode schema at ${sourceFilePath.path}`);
   }
-  return {
-    schema: migrateToLatestFormat(validation.right),
-    hash: crypto.createHash("md5").update(contents).digest("hex"),
-  };
+  return validation.right;
 }
 
-export function migrateToLatestFormat(file: TFile): CurrentFile {
-  return file;
+/**
+ * Rewrite every schema file under the save root which is older than the current version,
+ * or stored in the legacy layout. With dryRun, nothing is written.
+ * Legacy files are skipped if the source file also has a schema file in the current layout.
+ * @returns the original uri and version of each migrated schema file, and its new uri
+ */
+export async function migrateSchemaFiles(
+  saveRoot: URI,
+  params: { dryRun?: boolean } = {}
+): Promise<{ schemaUri: URI; fromVersion: number; newSchemaUri: URI }[]> {
+  const migrated = [];
+  for (const schemaUri of await listSchemaFiles(saveRoot)) {
+    const sourceUri = schemaFileUriToSourceUri(schemaUri);
+    const newSchemaUri = buildSchemaPath(saveRoot, sourceUri);
+    const isMoved = newSchemaUri.path !== schemaUri.path;
+    if (isMoved && (await exists(newSchemaUri))) {
+      continue;
+    }
+    const file = decodeAnyVersion(
+      (await fs.readFile(schemaUri)).toString(),
+      sourceUri
+    );
+    if (file.version === SCHEMA_VERSION && !isMoved) {
+      continue;
+    }
+    if (!params.dryRun) {
+      await saveSchema(saveRoot, sourceUri, migrateToLatestFormat(file));
+    }
+    migrated.push({ schemaUri, fromVersion: file.version, newSchemaUri });
+  }
+  return migrated;
 }
 
-export function resolveCodePath(sourceUri: URI, comment: CurrentComment) {
+export function resolveCodePath(
+  sourceUri: URI,
+  target: { codeRelativePath: string }
+) {
   // Resolve the uri based on source uri and code relative path
-  return Utils.joinPath(sourceUri, comment.codeRelativePath);
+  return Utils.joinPath(sourceUri, target.codeRelativePath);
+}
+
+/**
+ * All code targets of the comment, starting with the one stored in its own code fields.
+ * The ranges are the same objects as in the comment, so they can be updated in place.
+ */
+export function getCodeTargets(comment: CurrentComment): CodeTarget[] {
+  const { codeRelativePath, codeRange, codeValue, codeSymbol, codeHash } =
+    comment;
+  return [
+    {
+      codeRelativePath,
+      codeRange,
+      codeValue,
+      ...(codeSymbol != null ? { codeSymbol } : {}),
+      ...(codeHash != null ? { codeHash } : {}),
+    },
+    ...(comment.additionalTargets || []),
+  ];
+}
+
+// Most severe first
+export const PIN_SEVERITIES: PinSeverity[] = [
+  "error",
+  "warning",
+  "info",
+  "hint",
+];
+
+export function getSeverity(comment: CurrentComment): PinSeverity {
+  return comment.severity || "error";
+}
+
+/**
+ * True if severity is the same as threshold or more severe, e.g. error is at least warning.
+ */
+export function isAtLeastAsSevere(
+  severity: PinSeverity,
+  threshold: PinSeverity
+): boolean {
+  return PIN_SEVERITIES.indexOf(severity) <= PIN_SEVERITIES.indexOf(threshold);
+}
+
+// The parts of a pin which its author chooses, rather than reads from the documents
+export type PinDetails = {
+  severity?: PinSeverity;
+  normalization?: Normalization;
+  rationale?: string;
+  tags?: string[];
+};
+
+/**
+ * Split a list of tags separated by commas or whitespace, without duplicates.
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,\s]+/).filter(Boolean))];
+}
+
+/**
+ * Return a copy of the comment with the given details changed and its updated time set to now.
+ * An empty rationale removes the rationale.
+ */
+function withDetails(
+  comment: CurrentComment,
+  details: PinDetails
+): CurrentComment {
+  const updated: CurrentComment = {
+    ...comment,
+    updated: new Date().toISOString(),
+  };
+  if (details.severity != null) {
+    updated.severity = details.severity;
+  }
+  if (details.normalization != null) {
+    updated.normalization = details.normalization;
+  }
+  if (details.tags != null) {
+    updated.tags = parseTags(details.tags.join(","));
+  }
+  if (details.rationale != null) {
+    const rationale = details.rationale.trim();
+    if (rationale) {
+      updated.rationale = rationale;
+    } else {
+      delete updated.rationale;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Change the details of the pin with the given id by updating the schema in place.
+ * Returns the updated pin, or null if there is no such pin.
+ */
+export function updatePinDetails(
+  schema: CurrentFile,
+  commentId: number,
+  details: PinDetails
+): CurrentComment | null {
+  const index = schema.comments.findIndex((c) => c.id === commentId);
+  if (index === -1) {
+    return null;
+  }
+  schema.comments[index] = withDetails(schema.comments[index], details);
+  return schema.comments[index];
+}
+
+/**
+ * Author, times, rationale and tags of the pin which are set, in display order.
+ */
+export function getPinDetails(
+  comment: CurrentComment
+): { label: string; value: string }[] {
+  const details = [];
+  if (comment.rationale) {
+    details.push({ label: "Rationale", value: comment.rationale });
+  }
+  if (comment.tags.length > 0) {
+    details.push({ label: "Tags", value: comment.tags.join(", ") });
+  }
+  if (comment.normalization) {
+    details.push({ label: "Comparison", value: comment.normalization });
+  }
+  if (comment.author) {
+    details.push({ label: "Author", value: comment.author });
+  }
+  if (comment.created) {
+    details.push({ label: "Created", value: comment.created });
+  }
+  if (comment.updated && comment.updated !== comment.created) {
+    details.push({ label: "Updated", value: comment.updated });
+  }
+  return details;
+}
+
+/**
+ * Return a copy of the comment with its code target at index replaced.
+ */
+export function withCodeTarget(
+  comment: CurrentComment,
+  index: number,
+  target: CodeTarget
+): CurrentComment {
+  if (index === 0) {
+    // The new target is only anchored to a symbol, or hashed, if it is itself
+    const { codeSymbol, codeHash, ...rest } = comment;
+    return { ...rest, ...target };
+  }
+  const additionalTargets = (comment.additionalTargets || []).slice();
+  additionalTargets[index - 1] = target;
+  return { ...comment, additionalTargets };
+}
+
+/**
+ * Return a copy of the comment which pins the current text of its comment or of one code target,
+ * for changes to the text which were intended. Hashes of replaced text are dropped, so they are
+ * made again from the new text, and the updated time is set to now.
+ * @param code the current text of the target at targetIndex, and its current range
+ */
+export function withAcceptedText(
+  comment: CurrentComment,
+  accepted: {
+    commentValue?: string;
+    code?: { targetIndex: number; codeValue: string; codeRange: Range };
+  }
+): CurrentComment {
+  let updated = comment;
+  if (accepted.code != null) {
+    const { targetIndex, codeValue, codeRange } = accepted.code;
+    const { codeHash, ...target } = getCodeTargets(comment)[targetIndex];
+    updated = withCodeTarget(updated, targetIndex, {
+      ...target,
+      codeValue,
+      codeRange,
+    });
+  }
+  if (accepted.commentValue != null) {
+    const { commentHash, ...rest } = updated;
+    updated = { ...rest, commentValue: accepted.commentValue };
+  }
+  return { ...updated, updated: new Date().toISOString() };
+}
+
+function rangesEqual(a: Range, b: Range) {
+  return (
+    a.start.line === b.start.line &&
+    a.start.char === b.start.char &&
+    a.end.line === b.end.line &&
+    a.end.char === b.end.char
+  );
+}
+
+/**
+ * Return a unique id for the given schema and advance its id counter.
+ * Never below the current max plus one, in case the counter was edited by hand.
+ */
+export function nextId(schema: CurrentFile): number {
+  let currentMax = -1;
+  for (const comment of schema.comments) {
+    currentMax = Math.max(currentMax, comment.id);
+  }
+  const id = Math.max(schema.nextId, currentMax + 1);
+  schema.nextId = id + 1;
+  return id;
+}
+
+/**
+ * Pin the comment to the code target by updating the schema in place.
+ * If the comment range is already pinned, the target is added to that pin (or updated, if the
+ * pin already has a target with the same path and range) instead of creating a duplicate pin.
+ * Then previous is that pin as it was before, e.g. to undo the change.
+ */
+export function addPinToSchema(
+  schema: CurrentFile,
+  commentRange: Range,
+  commentValue: string,
+  target: CodeTarget,
+  params: PinDetails & { author?: string } = {}
+): {
+  status: "added" | "target added" | "updated";
+  comment: CurrentComment;
+  previous?: CurrentComment;
+} {
+  // Details which are given also apply to an existing pin, otherwise it keeps its own
+  const { author, ...details } = params;
+  const index = schema.comments.findIndex((c) =>
+    rangesEqual(c.commentRange, commentRange)
+  );
+  if (index === -1) {
+    const created = new Date().toISOString();
+    const comment = withDetails(
+      {
+        commentRange,
+        commentValue,
+        ...target,
+        id: nextId(schema),
+        metadata: {},
+        tags: [],
+        ...(author != null ? { author } : {}),
+        created,
+      },
+      details
+    );
+    comment.updated = created;
+    schema.comments.push(comment);
+    return { status: "added", comment };
+  }
+  const existing = schema.comments[index];
+  const targetIndex = getCodeTargets(existing).findIndex(
+    (t) =>
+      t.codeRelativePath === target.codeRelativePath &&
+      rangesEqual(t.codeRange, target.codeRange)
+  );
+  if (targetIndex === -1) {
+    schema.comments[index] = withDetails(
+      {
+        ...existing,
+        commentValue,
+        commentHash: undefined,
+        additionalTargets: (existing.additionalTargets || []).concat(target),
+      },
+      details
+    );
+    return {
+      status: "target added",
+      comment: schema.comments[index],
+      previous: existing,
+    };
+  }
+  schema.comments[index] = withDetails(
+    {
+      ...withCodeTarget(existing, targetIndex, target),
+      commentValue,
+      commentHash: undefined,
+    },
+    details
+  );
+  return {
+    status: "updated",
+    comment: schema.comments[index],
+    previous: existing,
+  };
 }
 
 export function getCodeRelativePath(commentUri: URI, codeUri: URI) {
@@ -0,0 +1,105 @@
+// Hash-only storage of pinned text, enabled with "storage": "hash" in the repository config.
+// Schema files then keep a hash and length of each pinned text instead of a full copy of it,
+// so large code blocks aren't duplicated in the repository. Validation compares hashes, but
+// moved text can't be searched for and the original text can't be restored.
+
+// Note: crypto is node-only, like in schema.ts
+import * as crypto from "crypto";
+
+import { getNormalization, normalizeText } from "./normalization";
+import {
+  ContentHash,
+  CurrentComment,
+  CurrentFile,
+  Normalization,
+} from "./types";
+
+export function hashText(
+  text: string,
+  normalization: Normalization,
+  lineComment: string | null
+): ContentHash {
+  return {
+    sha256: crypto
+      .createHash("sha256")
+      .update(normalizeText(text, normalization, lineComment))
+      .digest("hex"),
+    length: text.length,
+    normalization,
+  };
+}
+
+/**
+ * Whether the text matches the hash, comparing in the mode the hash was made with.
+ */
+export function matchesHash(
+  text: string,
+  hash: ContentHash,
+  lineComment: string | null
+): boolean {
+  return hashText(text, hash.normalization, lineComment).sha256 === hash.sha256;
+}
+
+function makePreview(text: string, previewLength: number): string {
+  return text.length > previewLength
+    ? `${text.slice(0, previewLength)}${previewLength > 0 ? "…" : ""}`
+    : text;
+}
+
+/**
+ * Describe hashed text for people, with its preview if there is one.
+ */
+export function describeHashedText(preview: string, hash: ContentHash): string {
+  const summary = `${hash.length} characters, hash ${hash.sha256.slice(0, 8)}`;
+  return preview ? `"${preview}" (${summary})` : `(${summary})`;
+}
+
+/**
+ * Return a copy of the schema where the text of every pin is replaced by its hash and a preview.
+ * Texts which are already hashed stay the same, because their original is unknown.
+ * @param normalization comparison mode of the repository, used for pins without their own
+ * @param lineComment comment marker of the file, the same one validation will use
+ */
+export function storeHashes(
+  schema: CurrentFile,
+  params: {
+    normalization?: Normalization;
+    previewLength?: number;
+    lineComment?: string | null;
+  } = {}
+): CurrentFile {
+  const { previewLength = 0, lineComment = null } = params;
+  const hashComment = (comment: CurrentComment): CurrentComment => {
+    const normalization = getNormalization(
+      comment,
+      schema,
+      params.normalization
+    );
+    const hashed = { ...comment };
+    if (hashed.commentHash == null) {
+      hashed.commentHash = hashText(
+        comment.commentValue,
+        normalization,
+        lineComment
+      );
+      hashed.commentValue = makePreview(comment.commentValue, previewLength);
+    }
+    if (hashed.codeHash == null) {
+      hashed.codeHash = hashText(comment.codeValue, normalization, lineComment);
+      hashed.codeValue = makePreview(comment.codeValue, previewLength);
+    }
+    if (comment.additionalTargets != null) {
+      hashed.additionalTargets = comment.additionalTargets.map((target) =>
+        target.codeHash != null
+          ? target
+          : {
+              ...target,
+              codeHash: hashText(target.codeValue, normalization, lineComment),
+              codeValue: makePreview(target.codeValue, previewLength),
+            }
+      );
+    }
+    return hashed;
+  };
+  return { ...schema, comments: schema.comments.map(hashComment) };
+}
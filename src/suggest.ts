@@ -0,0 +1,175 @@
+// Suggestions of new pins for onboarding existing code: comment blocks directly followed by code
+// which are not pinned yet. The VS Code command lets the user pick among them, the suggest
+// command of the command line program lists them or pins all of them.
+
+import { URI, Utils } from "vscode-uri";
+
+import {
+  allowsNestedBlockComments,
+  classifyLines,
+  CommentSyntax,
+} from "./comments";
+import { getCommentSyntax, languageIdForPath } from "./commentSyntax";
+import { FileType, getFs } from "./fsShim";
+import { addPinToSchema, loadSchema, PinDetails, saveSchema } from "./schema";
+import { CurrentFile, emptySchema, Range } from "./types";
+
+const fs = getFs();
+
+// Folders which never contain source files worth pinning
+const SKIPPED_FOLDERS = new Set(["node_modules"]);
+
+export type PinSuggestion = {
+  commentRange: Range;
+  commentValue: string;
+  // In the same file as the comment
+  codeRange: Range;
+  codeValue: string;
+};
+
+const overlaps = (range: Range, startLine: number, endLine: number) =>
+  range.start.line <= endLine && range.end.line >= startLine;
+
+/**
+ * Find the comment blocks of the text which are directly followed by code, classifying lines
+ * like auto-pinning a selection does. Each comment block is suggested with the code lines
+ * after it, up to the next empty or comment line.
+ * @param schema pins of the file, comments overlapping their comment ranges are not suggested again
+ */
+export function suggestPins(
+  text: string,
+  schema: CurrentFile | null,
+  syntax: CommentSyntax,
+  params: { nested?: boolean } = {}
+): PinSuggestion[] {
+  const lineTypes = classifyLines(text, syntax, params);
+  // Offsets of the start of each line and the length of its content, without line breaks
+  const rawLines = text.split("\n");
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of rawLines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const lineLength = (line: number) => rawLines[line].replace(/\r$/, "").length;
+  const rangeOf = (startLine: number, endLine: number) => {
+    const range = {
+      start: { line: startLine, char: 0 },
+      end: { line: endLine, char: lineLength(endLine) },
+    };
+    const value = text.slice(
+      lineStarts[startLine],
+      lineStarts[endLine] + range.end.char
+    );
+    return { range, value };
+  };
+
+  const pinnedRanges =
+    schema != null ? schema.comments.map((c) => c.commentRange) : [];
+  const suggestions: PinSuggestion[] = [];
+  let line = 0;
+  while (line < lineTypes.length) {
+    if (lineTypes[line] !== "comment") {
+      line++;
+      continue;
+    }
+    const commentStart = line;
+    while (line < lineTypes.length && lineTypes[line] === "comment") {
+      line++;
+    }
+    const codeStart = line;
+    while (line < lineTypes.length && lineTypes[line] === "code") {
+      line++;
+    }
+    if (
+      codeStart === line ||
+      pinnedRanges.some((r) => overlaps(r, commentStart, codeStart - 1))
+    ) {
+      continue;
+    }
+    const comment = rangeOf(commentStart, codeStart - 1);
+    const code = rangeOf(codeStart, line - 1);
+    suggestions.push({
+      commentRange: comment.range,
+      commentValue: comment.value,
+      codeRange: code.range,
+      codeValue: code.value,
+    });
+  }
+  return suggestions;
+}
+
+/**
+ * Pin all of the suggestions by updating the schema in place.
+ */
+export function addSuggestedPins(
+  schema: CurrentFile,
+  suggestions: PinSuggestion[],
+  params: PinDetails & { author?: string } = {}
+) {
+  for (const suggestion of suggestions) {
+    addPinToSchema(
+      schema,
+      suggestion.commentRange,
+      suggestion.commentValue,
+      {
+        codeRange: suggestion.codeRange,
+        codeRelativePath: "",
+        codeValue: suggestion.codeValue,
+      },
+      params
+    );
+  }
+}
+
+/**
+ * List the files under the folder in languages with known comment syntax.
+ * Hidden folders (like .git and the schema folder) and node_modules are skipped.
+ */
+export async function listSourceFiles(folder: URI): Promise<URI[]> {
+  const files: URI[] = [];
+  const visit = async (current: URI) => {
+    for (const [name, typ] of await fs.readDirectory(current)) {
+      const uri = Utils.joinPath(current, name);
+      if (typ === FileType.Directory) {
+        if (!name.startsWith(".") && !SKIPPED_FOLDERS.has(name)) {
+          await visit(uri);
+        }
+      } else if (typ === FileType.File && languageIdForPath(name) != null) {
+        files.push(uri);
+      }
+    }
+  };
+  await visit(folder);
+  return files;
+}
+
+/**
+ * Suggest pins for a file read from disk, using the built-in comment syntax of its language.
+ * With apply, the suggestions are pinned and the schema of the file is saved once.
+ */
+export async function suggestPinsForFile(
+  saveRoot: URI,
+  sourceUri: URI,
+  params: { apply?: boolean; author?: string } = {}
+): Promise<PinSuggestion[]> {
+  const languageId = languageIdForPath(sourceUri.path);
+  const syntax = getCommentSyntax({ path: sourceUri.path });
+  if (languageId == null || syntax == null) {
+    return [];
+  }
+  const loaded = await loadSchema(saveRoot, sourceUri);
+  const text = (await fs.readFile(sourceUri)).toString();
+  const suggestions = suggestPins(text, loaded?.schema ?? null, syntax, {
+    nested: allowsNestedBlockComments(languageId),
+  });
+  if (params.apply && suggestions.length > 0) {
+    const schema = loaded?.schema ?? emptySchema();
+    if (schema.configuration.lineComment == null) {
+      schema.configuration.lineComment = syntax.lineComment ?? null;
+    }
+    addSuggestedPins(schema, suggestions, { author: params.author });
+    await saveSchema(saveRoot, sourceUri, schema);
+  }
+  return suggestions;
+}
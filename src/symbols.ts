@@ -0,0 +1,83 @@
+// Symbol paths of pins anchored to named symbols, e.g. "class SchemaModel > method guardIO".
+// The symbols themselves come from the editor (VS Code's document symbol provider),
+// converted to this editor-independent tree.
+
+import { Range, SymbolPath } from "./types";
+
+export type SymbolNode = {
+  name: string;
+  // Lowercase name of the symbol kind, e.g. "class", "method" or "function"
+  kind: string;
+  range: Range;
+  children: SymbolNode[];
+};
+
+function contains(range: Range, position: { line: number; char: number }) {
+  const afterStart =
+    position.line > range.start.line ||
+    (position.line === range.start.line && position.char >= range.start.char);
+  const beforeEnd =
+    position.line < range.end.line ||
+    (position.line === range.end.line && position.char <= range.end.char);
+  return afterStart && beforeEnd;
+}
+
+export function formatSymbolPath(path: SymbolPath): string {
+  return path.map(({ kind, name }) => `${kind} ${name}`).join(" > ");
+}
+
+/**
+ * Path of the innermost symbol containing the position, or null if no symbol contains it.
+ */
+export function findSymbolPathAt(
+  symbols: SymbolNode[],
+  position: { line: number; char: number }
+): { path: SymbolPath; range: Range } | null {
+  const symbol = symbols.find((s) => contains(s.range, position));
+  if (symbol == null) {
+    return null;
+  }
+  const own = { kind: symbol.kind, name: symbol.name };
+  const inner = findSymbolPathAt(symbol.children, position);
+  if (inner == null) {
+    return { path: [own], range: symbol.range };
+  }
+  return { path: [own, ...inner.path], range: inner.range };
+}
+
+/**
+ * Range of the symbol at the path, or null if it no longer exists.
+ * A symbol whose kind changed but kept its name, e.g. a function turned into a constant, still matches.
+ */
+export function resolveSymbolPath(
+  symbols: SymbolNode[],
+  path: SymbolPath
+): Range | null {
+  let candidates = symbols;
+  let found: SymbolNode | undefined;
+  for (const { kind, name } of path) {
+    found =
+      candidates.find((s) => s.name === name && s.kind === kind) ||
+      candidates.find((s) => s.name === name);
+    if (found == null) {
+      return null;
+    }
+    candidates = found.children;
+  }
+  return found != null ? found.range : null;
+}
+
+/**
+ * Whether a symbol of the path certainly no longer exists, for when symbols can't be looked up:
+ * the name of one of its symbols does not appear in the text.
+ * Only names which are identifiers are looked for, others like "<function>" are never missing.
+ */
+export function isSymbolNameMissing(text: string, path: SymbolPath): boolean {
+  return path.some(({ name }) => {
+    if (!/^[\w$]+$/.test(name)) {
+      return false;
+    }
+    const escaped = name.replace(/\$/g, "\\$");
+    return !new RegExp(`(^|[^\\w$])${escaped}($|[^\\w$])`).test(text);
+  });
+}
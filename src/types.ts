@@ -39,14 +39,140 @@ const FileV1 = t.type({
   configuration: ConfigurationV1,
   comments: t.array(CommentV1),
 });
-type FileV1 = t.TypeOf<typeof FileV1>;
+export type FileV1 = t.TypeOf<typeof FileV1>;
 
-// * When there are more versions, this should be a union of all of them
-export const File = FileV1;
+// A piece of code that a comment is pinned to
+const CodeTargetV2 = t.type({
+  codeRelativePath: CommentV1.props.codeRelativePath,
+  codeRange: Range,
+  codeValue: t.string,
+});
+
+// How pinned text is compared with the text in the document:
+// exact compares byte for byte, trim ignores whitespace at the start and end of each line,
+// whitespace treats every run of whitespace as a single space,
+// comment also ignores the configured line comment marker at the start of each line
+export const Normalization = t.keyof({
+  exact: null,
+  trim: null,
+  whitespace: null,
+  comment: null,
+});
+export type Normalization = t.TypeOf<typeof Normalization>;
+
+// A hash which is stored instead of pinned text when the repository stores hashes only (see src/storage.ts).
+// The text field next to it then only holds a short preview of the text, possibly empty.
+const ContentHash = t.type({
+  // Hex digest of the text normalized in the comparison mode below
+  sha256: t.string,
+  // Length of the text before normalizing
+  length: t.number,
+  normalization: Normalization,
+});
+export type ContentHash = t.TypeOf<typeof ContentHash>;
+
+// A named symbol of a document, as the names and kinds of its containers and itself,
+// e.g. [{ kind: "class", name: "SchemaModel" }, { kind: "method", name: "guardIO" }]
+export const SymbolPath = t.array(t.type({ kind: t.string, name: t.string }));
+export type SymbolPath = t.TypeOf<typeof SymbolPath>;
+
+const CodeTargetV3 = t.intersection([
+  CodeTargetV2,
+  t.partial({
+    // The symbol the code is anchored to. Its range is looked up again when validating,
+    // and codeRange is only used where symbols can't be looked up
+    codeSymbol: SymbolPath,
+    codeHash: ContentHash,
+  }),
+]);
+export type CodeTarget = t.TypeOf<typeof CodeTargetV3>;
+
+// How a broken pin is reported, pins without a severity are errors
+const PinSeverity = t.keyof({
+  error: null,
+  warning: null,
+  info: null,
+  hint: null,
+});
+export type PinSeverity = t.TypeOf<typeof PinSeverity>;
+
+const CommentV2 = t.intersection([
+  t.type({
+    ...CommentV1.props,
+    // Free-form annotations of the pin, e.g. a link to the design doc it follows
+    metadata: t.record(t.string, t.string),
+  }),
+  t.partial({
+    // More code the comment is pinned to, besides the code fields above.
+    // For comments describing an invariant that spans several places, e.g. a writer and a reader.
+    additionalTargets: t.array(CodeTargetV2),
+    severity: PinSeverity,
+  }),
+]);
+type CommentV2 = t.TypeOf<typeof CommentV2>;
+
+const ConfigurationV2 = t.type({
+  ...ConfigurationV1.props,
+  normalization: Normalization,
+});
+export type ConfigurationV2 = t.TypeOf<typeof ConfigurationV2>;
+
+const FileV2 = t.type({
+  version: t.literal(2),
+  configuration: ConfigurationV2,
+  // The id of the next pin added to the file, so ids of removed pins are never reused
+  nextId: t.number,
+  comments: t.array(CommentV2),
+});
+export type FileV2 = t.TypeOf<typeof FileV2>;
+
+const CommentV3 = t.intersection([
+  t.type({
+    ...CommentV2.types[0].props,
+    // Labels for grouping pins, e.g. "protocol", validation can be limited to pins with some tags
+    tags: t.array(t.string),
+  }),
+  t.partial({
+    ...CommentV2.types[1].props,
+    // Who created the pin, from the git config of the repository when available
+    author: t.string,
+    // ISO 8601 times when the pin was created and when its targets or details last changed
+    created: t.string,
+    updated: t.string,
+    // Why the comment and code have to stay in sync
+    rationale: t.string,
+    // Comparison mode of this pin, instead of the mode of the repository or schema file
+    normalization: Normalization,
+    codeSymbol: SymbolPath,
+    codeHash: ContentHash,
+    commentHash: ContentHash,
+    additionalTargets: t.array(CodeTargetV3),
+  }),
+]);
+
+const ConfigurationV3 = t.type({
+  ...ConfigurationV1.props,
+  // Comparison mode of the pins of this file which don't have their own,
+  // null to use the mode of the repository
+  normalization: optional(Normalization),
+});
+export type ConfigurationV3 = t.TypeOf<typeof ConfigurationV3>;
+
+const FileV3 = t.type({
+  version: t.literal(3),
+  configuration: ConfigurationV3,
+  nextId: t.number,
+  comments: t.array(CommentV3),
+});
+export type FileV3 = t.TypeOf<typeof FileV3>;
+
+// * When there are more versions, add them to this union
+export const File = t.union([FileV1, FileV2, FileV3]);
 export type TFile = t.TypeOf<typeof File>;
 
 // * This type should match the latest version
-export type CurrentFile = t.TypeOf<typeof FileV1>;
+export type CurrentFile = FileV3;
+export const CurrentComment = CommentV3;
 export type CurrentComment = CurrentFile["comments"][number];
 export type CurrentCommentWithUri = {
   // The sourceUri is the uri of the source file that contains the comment
@@ -56,9 +182,10 @@ export type CurrentCommentWithUri = {
 
 export function emptySchema(): CurrentFile {
   return {
-    version: 1,
+    version: 3,
+    nextId: 0,
     comments: [],
-    configuration: { lineComment: null },
+    configuration: { lineComment: null, normalization: null },
   };
 }
 
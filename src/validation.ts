@@ -1,12 +1,35 @@
-import { Range as SchemaRange, CurrentComment, CurrentFile } from "./types";
+import {
+  Range as SchemaRange,
+  CurrentComment,
+  CurrentFile,
+  Normalization,
+  PinSeverity,
+  CodeTarget,
+  ContentHash,
+} from "./types";
+import { getCommentSyntax } from "./commentSyntax";
+import {
+  formatSymbolPath,
+  isSymbolNameMissing,
+  resolveSymbolPath,
+  SymbolNode,
+} from "./symbols";
 
 import { URI } from "vscode-uri";
 import {
   TextDocument,
   Range as VscodeRange,
 } from "vscode-languageserver-textdocument";
-import { resolveCodePath } from "./schema";
+import {
+  getCodeTargets,
+  getSeverity,
+  resolveCodePath,
+  withCodeTarget,
+} from "./schema";
 import { getFs } from "./fsShim";
+import { DEFAULT_FUZZY_THRESHOLD, findBestMatch } from "./fuzzy";
+import { getNormalization, normalizeText } from "./normalization";
+import { describeHashedText, matchesHash } from "./storage";
 
 const fs = getFs();
 
@@ -17,6 +40,8 @@ export enum ErrorType {
   CodeMismatch,
   // Both the comment and code ranges do not match
   BothMismatch,
+  // The symbol which the code is anchored to was not found
+  SymbolNotFound,
 }
 
 type ValidationLocation = {
@@ -29,8 +54,15 @@ export type ValidationError = {
   commentUriString: string;
   // The range matches what is in the schema file
   commentRange: SchemaRange;
+  // Location of the code target which the error is about,
+  // at the range of its symbol when the target is anchored to one
   codeLocation: ValidationLocation;
+  // Index of that target in getCodeTargets, and the number of targets of the pin
+  targetIndex: number;
+  targetCount: number;
   errorType: ErrorType;
+  // Severity of the pin, how the error should be reported
+  severity: PinSeverity;
   actual: {
     comment: string;
     code: string;
@@ -38,12 +70,112 @@ export type ValidationError = {
   expected: {
     comment: string;
     code: string;
+    // Formatted symbol path of the code target, if it is anchored to a symbol
+    symbol?: string;
+    // When only hashes of the text are stored, comment and code above are previews
+    commentHash?: ContentHash;
+    codeHash?: ContentHash;
   };
   // Fix is only provided for moved comments
   moveFix?: CurrentComment;
+  // Between 0 and 1, less than 1 when the moved text was only approximately matched
+  moveFixConfidence?: number;
 };
 
-function convertRangeToVS(schemaRange: SchemaRange): VscodeRange {
+/**
+ * Describe a validation error in a single human-readable line.
+ */
+export function describeError(error: ValidationError): string {
+  const { expected } = error;
+  const expectedComment =
+    expected.commentHash != null
+      ? describeHashedText(expected.comment, expected.commentHash)
+      : `"${expected.comment}"`;
+  const expectedCode =
+    expected.codeHash != null
+      ? describeHashedText(expected.code, expected.codeHash)
+      : `"${expected.code}"`;
+  if (error.errorType === ErrorType.CommentMismatch) {
+    return `Comment text does not match schema. Expected: ${expectedComment}, got: "${error.actual.comment}"`;
+  }
+  const code =
+    error.targetCount > 1
+      ? `code target ${error.targetIndex + 1} of ${error.targetCount}`
+      : "code";
+  if (error.errorType === ErrorType.CodeMismatch) {
+    return `${
+      code[0].toUpperCase() + code.slice(1)
+    } does not match schema. Expected: ${expectedCode}, got: "${
+      error.actual.code
+    }"`;
+  } else if (error.errorType === ErrorType.BothMismatch) {
+    return `Both ${code} and comment do not match schema. Expected: ${expectedComment}, got: "${error.actual.comment}"`;
+  } else if (error.errorType === ErrorType.SymbolNotFound) {
+    return `Symbol of ${code} not found: ${error.expected.symbol}`;
+  }
+  return `Unknown error`;
+}
+
+/**
+ * Title of the quick fix which applies the moveFix of the error.
+ */
+export function describeMoveFix(error: ValidationError): string {
+  const updateType =
+    error.errorType === ErrorType.CommentMismatch
+      ? "comment"
+      : error.errorType === ErrorType.CodeMismatch
+      ? "code"
+      : "comment and code";
+  const confidence = error.moveFixConfidence ?? 1;
+  return confidence < 1
+    ? `Similar text found (${Math.round(
+        confidence * 100
+      )}% match): Move ${updateType} pin data`
+    : `New location found: Move ${updateType} pin data`;
+}
+
+/**
+ * Quick fixes which accept the current text of a mismatch by updating the pin instead of the
+ * document, with the sides of the pin whose text each of them accepts.
+ * The comment is not accepted when it has a move fix, since the text at its stored range may
+ * be some other text which took its place.
+ */
+export function listAcceptFixes(
+  error: ValidationError
+): { title: string; comment: boolean; code: boolean }[] {
+  return listAcceptFixesOfType(error.errorType).filter(
+    (fix) => !fix.comment || error.moveFix == null
+  );
+}
+
+function listAcceptFixesOfType(
+  errorType: ErrorType
+): { title: string; comment: boolean; code: boolean }[] {
+  const acceptComment = {
+    title: "Accept current comment",
+    comment: true,
+    code: false,
+  };
+  const acceptCode = {
+    title: "Accept current code",
+    comment: false,
+    code: true,
+  };
+  if (errorType === ErrorType.CommentMismatch) {
+    return [acceptComment];
+  } else if (errorType === ErrorType.CodeMismatch) {
+    return [acceptCode];
+  } else if (errorType === ErrorType.BothMismatch) {
+    return [
+      { title: "Accept current comment and code", comment: true, code: true },
+      acceptComment,
+      acceptCode,
+    ];
+  }
+  return [];
+}
+
+export function convertRangeToVS(schemaRange: SchemaRange): VscodeRange {
   return {
     start: {
       line: schemaRange.start.line,
@@ -53,7 +185,7 @@ function convertRangeToVS(schemaRange: SchemaRange): VscodeRange {
   };
 }
 
-function convertRangeToSchema(vscodeRange: VscodeRange): SchemaRange {
+export function convertRangeToSchema(vscodeRange: VscodeRange): SchemaRange {
   return {
     start: {
       line: vscodeRange.start.line,
@@ -63,102 +195,410 @@ function convertRangeToSchema(vscodeRange: VscodeRange): SchemaRange {
   };
 }
 
+export type ValidationOptions = {
+  // Loads documents that contain code pinned from another file, by default from the file system
+  loadDocument?: (uri: URI) => Promise<TextDocument>;
+  // Minimum similarity for approximate matches of moved text, 1 only allows exact matches
+  fuzzyThreshold?: number;
+  // Loads the symbols of a document, to look up the ranges of code anchored to symbols.
+  // Without it, or when it resolves to null, the stored code ranges are used instead
+  loadSymbols?: (uri: URI) => Promise<SymbolNode[] | null>;
+  // Only validate the pins with at least one of these tags, all pins when empty or unset
+  tags?: string[];
+  // Comparison mode of the repository, for pins without their own mode
+  // when their schema configuration has no mode either
+  normalization?: Normalization;
+};
+
+/**
+ * Find the new location of pinned text that no longer matches its range.
+ * Exact copies are preferred, otherwise the best approximate match is used.
+ * An approximate match only moves the range: its value is the pinned text, not the changed text
+ * in the new range, so the moved pin is still broken until the change is accepted.
+ * @returns the new range and the value to pin, or null if not found
+ */
+function findMovedText(
+  doc: TextDocument,
+  value: string,
+  range: SchemaRange,
+  options: ValidationOptions,
+  normalize: (text: string) => string
+): { range: SchemaRange; value: string; confidence: number } | null {
+  const index = doc.getText().indexOf(value);
+  if (index !== -1) {
+    const start = doc.positionAt(index);
+    const end = doc.positionAt(index + value.length);
+    return {
+      range: convertRangeToSchema({ start, end }),
+      value,
+      confidence: 1,
+    };
+  }
+  // Text which is equal in the comparison mode is as good as an exact copy
+  const normalized = findNormalizedText(doc, value, range, normalize);
+  if (normalized != null) {
+    return { ...normalized, confidence: 1 };
+  }
+  const threshold = options.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD;
+  if (threshold >= 1) {
+    return null;
+  }
+  const match = findBestMatch(doc, value, {
+    threshold,
+    wholeLines: range.start.char === 0,
+    nearLine: range.start.line,
+  });
+  if (match == null) {
+    return null;
+  }
+  const newRange = convertRangeToSchema({
+    start: doc.positionAt(match.start),
+    end: doc.positionAt(match.end),
+  });
+  // Text changed in place is not a move
+  if (JSON.stringify(newRange) === JSON.stringify(range)) {
+    return null;
+  }
+  return { range: newRange, value, confidence: match.score };
+}
+
+/**
+ * Find the lines closest to range which are equal to value after normalizing both,
+ * with the same number of lines as value.
+ * @returns the new range and the text in it, or null if not found or not moved
+ */
+function findNormalizedText(
+  doc: TextDocument,
+  value: string,
+  range: SchemaRange,
+  normalize: (text: string) => string
+): { range: SchemaRange; value: string } | null {
+  const normalizedValue = normalize(value);
+  const lines = doc.getText().split(/\r?\n/);
+  const lineCount = value.split("\n").length;
+  const candidates = [];
+  for (let line = 0; line + lineCount <= lines.length; line++) {
+    const window = lines.slice(line, line + lineCount);
+    if (normalize(window.join("\n")) === normalizedValue) {
+      candidates.push({ line, window });
+    }
+  }
+  if (candidates.length === 0) {
+    return null;
+  }
+  const nearLine = range.start.line;
+  const { line, window } = candidates.reduce((best, candidate) =>
+    Math.abs(candidate.line - nearLine) < Math.abs(best.line - nearLine)
+      ? candidate
+      : best
+  );
+  // Like approximate matches, start at the first non-whitespace character unless the pin started its line
+  const startChar =
+    range.start.char === 0
+      ? 0
+      : window[0].length - window[0].trimStart().length;
+  const newRange = {
+    start: { line, char: startChar },
+    end: {
+      line: line + lineCount - 1,
+      char: window[window.length - 1].length,
+    },
+  };
+  // Text changed in place is not a move
+  if (JSON.stringify(newRange) === JSON.stringify(range)) {
+    return null;
+  }
+  return { range: newRange, value: doc.getText(convertRangeToVS(newRange)) };
+}
+
+// The text of the lines of range, from the start of its first line to the end of its last line
+function getLinesText(doc: TextDocument, range: SchemaRange): string {
+  const start = doc.offsetAt({ line: range.start.line, character: 0 });
+  const end =
+    range.end.line + 1 < doc.lineCount
+      ? doc.offsetAt({ line: range.end.line + 1, character: 0 })
+      : doc.getText().length;
+  return doc
+    .getText()
+    .slice(start, end)
+    .replace(/\r?\n$/, "");
+}
+
+/**
+ * Look up the range of the symbol which the code target is anchored to.
+ * @returns the range, null if the target has no symbol or symbols can't be loaded,
+ * and undefined if the symbol is not found
+ */
+async function findSymbolRange(
+  codeUri: URI,
+  target: CodeTarget,
+  options: ValidationOptions
+): Promise<SchemaRange | null | undefined> {
+  if (target.codeSymbol == null || options.loadSymbols == null) {
+    return null;
+  }
+  const symbols = await options.loadSymbols(codeUri);
+  if (symbols == null) {
+    return null;
+  }
+  return resolveSymbolPath(symbols, target.codeSymbol) ?? undefined;
+}
+
+/**
+ * Move the code targets of the comment which are anchored to symbols to the current ranges of
+ * their symbols. Where symbols can't be looked up, e.g. on the command line, the stored ranges
+ * are checked, so they have to follow their symbols.
+ * @param sourceUri the file containing the comment
+ * @returns the updated comment, or null if no range changed
+ */
+export async function updateSymbolRanges(
+  sourceUri: URI,
+  comment: CurrentComment,
+  loadSymbols: (uri: URI) => Promise<SymbolNode[] | null>
+): Promise<CurrentComment | null> {
+  let updated = comment;
+  for (const [index, target] of getCodeTargets(comment).entries()) {
+    const codeUri = resolveCodePath(sourceUri, target);
+    const range = await findSymbolRange(codeUri, target, { loadSymbols });
+    if (
+      range != null &&
+      JSON.stringify(range) !== JSON.stringify(target.codeRange)
+    ) {
+      updated = withCodeTarget(updated, index, { ...target, codeRange: range });
+    }
+  }
+  return updated !== comment ? updated : null;
+}
+
+export async function loadDocumentFromFs(uri: URI): Promise<TextDocument> {
+  return TextDocument.create(
+    uri.toString(),
+    "text",
+    0,
+    (await fs.readFile(uri)).toString()
+  );
+}
+
+/**
+ * Whether the pin is validated when validation is limited to pins with some tags,
+ * every pin is when there are no tags.
+ */
+export function hasAnyTag(comment: CurrentComment, tags: string[]): boolean {
+  return tags.length === 0 || comment.tags.some((tag) => tags.includes(tag));
+}
+
 /**
  * Validates a source file against a schema.
  * @param contents The contents of the file to validate
  * @param schema the pre-defined comment-code mappings for this doc
+ * @param options change where pinned code in other files is read from and how moved text is found
  * @returns array of validation errors,
  * note: the length may not match the number of comments in the schema (it only includes errors)
  */
 export async function validate(
   doc: TextDocument,
-  schema: CurrentFile
+  schema: CurrentFile,
+  options: ValidationOptions = {}
 ): Promise<ValidationError[]> {
   const errors: ValidationError[] = [];
+  const loadDocument = options.loadDocument || loadDocumentFromFs;
 
+  const { tags = [] } = options;
+  // Schemas written outside VS Code may not know the marker, then use the built-in one of the language
+  const lineComment =
+    schema.configuration.lineComment ??
+    getCommentSyntax({ languageId: doc.languageId, path: doc.uri })
+      ?.lineComment ??
+    null;
   for (const comment of schema!.comments) {
-    const commentText = doc.getText(convertRangeToVS(comment.commentRange));
-    const codeUri = resolveCodePath(URI.parse(doc.uri), comment);
-    let codeDoc = doc;
-    let codeText: string;
-    if (codeUri.toString() === doc.uri) {
-      // Then the code and comment are in the same file
-      codeText = doc.getText(convertRangeToVS(comment.codeRange));
-    } else {
-      // Read the code text by loading its document
-      codeDoc = TextDocument.create(
-        codeUri.toString(),
-        "text",
-        0,
-        (await fs.readFile(codeUri)).toString()
-      );
-      codeText = codeDoc.getText(convertRangeToVS(comment.codeRange));
+    if (!hasAnyTag(comment, tags)) {
+      continue;
     }
+    const normalization = getNormalization(
+      comment,
+      schema,
+      options.normalization
+    );
+    const normalize = (text: string) =>
+      normalizeText(text, normalization, lineComment);
+    const matchesAt = (
+      textDoc: TextDocument,
+      range: SchemaRange,
+      value: string,
+      hash?: ContentHash
+    ) => {
+      // Hashes are compared in the mode they were made with
+      const matches =
+        hash != null
+          ? (text: string) => matchesHash(text, hash, lineComment)
+          : (text: string) => normalize(text) === normalize(value);
+      return (
+        matches(textDoc.getText(convertRangeToVS(range))) ||
+        // Reformatting changes the length of lines, which cuts off or extends the stored range,
+        // so the whole lines of the range also match
+        ((hash?.normalization ?? normalization) !== "exact" &&
+          matches(getLinesText(textDoc, range)))
+      );
+    };
+    const commentText = doc.getText(convertRangeToVS(comment.commentRange));
+    const commentMatches = matchesAt(
+      doc,
+      comment.commentRange,
+      comment.commentValue,
+      comment.commentHash
+    );
+    // If the text does not match but can be found elsewhere, this is its new location (otherwise null).
+    // Hashed text can't be searched for.
+    const commentMoved =
+      commentMatches || comment.commentHash != null
+        ? null
+        : findMovedText(
+            doc,
+            comment.commentValue,
+            comment.commentRange,
+            options,
+            normalize
+          );
+
+    const targets = await Promise.all(
+      getCodeTargets(comment).map(async (target) => {
+        const codeUri = resolveCodePath(URI.parse(doc.uri), target);
+        // Read the code text by loading its document, unless the code and comment are in the same file
+        const codeDoc =
+          codeUri.toString() === doc.uri ? doc : await loadDocument(codeUri);
+        let symbolRange = await findSymbolRange(codeUri, target, options);
+        // Without symbols the stored range is checked, unless the name of the symbol is gone
+        if (
+          symbolRange === null &&
+          target.codeSymbol != null &&
+          isSymbolNameMissing(codeDoc.getText(), target.codeSymbol)
+        ) {
+          symbolRange = undefined;
+        }
+        if (symbolRange === undefined) {
+          const codeText = codeDoc.getText(convertRangeToVS(target.codeRange));
+          return {
+            target,
+            codeUri,
+            codeText,
+            codeRange: target.codeRange,
+            matches: false,
+            moved: null,
+            symbolNotFound: true,
+          };
+        }
+        const codeRange = symbolRange || target.codeRange;
+        const codeText = codeDoc.getText(convertRangeToVS(codeRange));
+        const matches = matchesAt(
+          codeDoc,
+          codeRange,
+          target.codeValue,
+          target.codeHash
+        );
+        // The range of a symbol is already where the code is, so it isn't searched for
+        const moved =
+          matches || symbolRange != null || target.codeHash != null
+            ? null
+            : findMovedText(
+                codeDoc,
+                target.codeValue,
+                codeRange,
+                options,
+                normalize
+              );
+        return { target, codeUri, codeText, codeRange, matches, moved };
+      })
+    );
 
-    const makeError = (errorType: ErrorType, moveFix?: CurrentComment) => ({
-      commentId: comment.id,
-      commentUriString: doc.uri.toString(),
-      commentRange: comment.commentRange,
-      errorType,
-      codeLocation: {
-        uriString: codeUri.toString(),
-        range: comment.codeRange,
-      },
-      actual: {
-        comment: commentText,
-        code: codeText,
-      },
-      expected: {
-        comment: comment.commentValue,
-        code: comment.codeValue,
-      },
-      moveFix,
+    // The fix moves every text which was found at a new location,
+    // so applying the fix of any error of the pin also fixes the others where possible
+    let fix = comment;
+    if (commentMoved != null) {
+      fix = {
+        ...fix,
+        commentRange: commentMoved.range,
+        commentValue: commentMoved.value,
+      };
+    }
+    targets.forEach(({ target, moved }, index) => {
+      if (moved != null) {
+        fix = withCodeTarget(fix, index, {
+          ...target,
+          codeRange: moved.range,
+          codeValue: moved.value,
+        });
+      }
     });
 
-    const commentMatches = commentText === comment.commentValue;
-    const codeMatches = codeText === comment.codeValue;
-    // If the comment does not match but can be found elsewhere, this is the index (otherwise -1)
-    const commentMovedNewIndex =
-      (commentMatches && -1) || doc.getText().indexOf(comment.commentValue);
-    const codeMovedNewIndex =
-      (codeMatches && -1) || codeDoc.getText().indexOf(comment.codeValue);
-    // This function helps us make new comment object for moved texts
-    const makeFix = (cur: CurrentComment, typ: "comment" | "code") => {
-      const whichDoc = typ === "comment" ? doc : codeDoc;
-      const whichIndex =
-        typ === "comment" ? commentMovedNewIndex : codeMovedNewIndex;
-      const whichValue = typ === "comment" ? cur.commentValue : cur.codeValue;
-      const start = whichDoc.positionAt(whichIndex);
-      const end = whichDoc.positionAt(whichIndex + whichValue.length);
+    const makeError = (
+      errorType: ErrorType,
+      targetIndex: number,
+      moveFixConfidence?: number
+    ) => {
+      const { target, codeUri, codeText, codeRange } = targets[targetIndex];
       return {
-        ...cur,
-        [typ + "Range"]: convertRangeToSchema({ start, end }),
+        commentId: comment.id,
+        commentUriString: doc.uri.toString(),
+        commentRange: comment.commentRange,
+        errorType,
+        severity: getSeverity(comment),
+        codeLocation: {
+          uriString: codeUri.toString(),
+          range: codeRange,
+        },
+        targetIndex,
+        targetCount: targets.length,
+        actual: {
+          comment: commentText,
+          code: codeText,
+        },
+        expected: {
+          comment: comment.commentValue,
+          code: target.codeValue,
+          ...(target.codeSymbol != null
+            ? { symbol: formatSymbolPath(target.codeSymbol) }
+            : {}),
+          ...(comment.commentHash != null
+            ? { commentHash: comment.commentHash }
+            : {}),
+          ...(target.codeHash != null ? { codeHash: target.codeHash } : {}),
+        },
+        moveFix: moveFixConfidence != null ? fix : undefined,
+        moveFixConfidence,
       };
     };
 
-    // Pick which error to report
-    if (!commentMatches && codeMatches) {
-      if (commentMovedNewIndex !== -1) {
+    // Pick which errors to report: one for each code target that does not match,
+    // or one for the comment if all code targets match
+    const driftedIndexes = targets
+      .map(({ matches }, index) => (matches ? -1 : index))
+      .filter((index) => index !== -1);
+    if (driftedIndexes.length === 0) {
+      if (!commentMatches) {
         errors.push(
-          makeError(ErrorType.CommentMismatch, makeFix(comment, "comment"))
+          makeError(ErrorType.CommentMismatch, 0, commentMoved?.confidence)
         );
-      } else {
-        errors.push(makeError(ErrorType.CommentMismatch));
       }
-    } else if (commentMatches && !codeMatches) {
-      if (codeMovedNewIndex !== -1) {
+      continue;
+    }
+    for (const index of driftedIndexes) {
+      const codeMoved = targets[index].moved;
+      if (targets[index].symbolNotFound) {
+        errors.push(makeError(ErrorType.SymbolNotFound, index));
+      } else if (commentMatches) {
         errors.push(
-          makeError(ErrorType.CodeMismatch, makeFix(comment, "code"))
+          makeError(ErrorType.CodeMismatch, index, codeMoved?.confidence)
         );
       } else {
-        errors.push(makeError(ErrorType.CodeMismatch));
-      }
-    } else if (!commentMatches && !codeMatches) {
-      if (commentMovedNewIndex !== -1 && codeMovedNewIndex !== -1) {
-        const fix = makeFix(makeFix(comment, "comment"), "code");
-        errors.push(makeError(ErrorType.BothMismatch, fix));
-      } else {
-        errors.push(makeError(ErrorType.BothMismatch));
+        errors.push(
+          makeError(
+            ErrorType.BothMismatch,
+            index,
+            commentMoved != null && codeMoved != null
+              ? Math.min(commentMoved.confidence, codeMoved.confidence)
+              : undefined
+          )
+        );
       }
     }
   }
@@ -8,11 +8,16 @@ import * as path from "path";
 import {
   buildSchemaPath,
   findSaveRoot,
+  findSchemaPath,
+  listSchemaFiles,
   getSourceRootRelativePath,
   loadSchema,
   resolveCodePath,
+  getCodeTargets,
   saveSchema,
   schemaFileUriToSourceUri,
+  PinDetails,
+  updatePinDetails,
 } from "@lib/schema";
 import {
   dlog,
@@ -20,22 +25,27 @@ import {
   errorWrapperStrict as eStrict,
   log,
 } from "./logging";
+import { loadRepoConfig } from "@lib/config";
+import { renameInSchemas } from "@lib/rename";
 import { PROJECT_NAME } from "@lib/constants";
 import { CurrentComment, CurrentFile, emptySchema } from "@lib/types";
+import { updateSymbolRanges } from "@lib/validation";
 import { decorate } from "./decorations";
-import { getDiagnostics } from "./diagnostics";
+import {
+  errorsToDiagnostics,
+  getDiagnostics,
+  validateDocument,
+} from "./diagnostics";
 import {
   EMPTY_SCHEMA_HASH,
   findOverlappingRanges,
   updateNonOverlappingComments,
   updateOverlappingComments,
 } from "./schemaTools";
-import { exists, getFs } from "@lib/fsShim";
+import { loadDocumentSymbols } from "./symbols";
 import { fileToVscodeDocument } from "./typeConverters";
 import { documentForUri, editorForUri } from "./vscodeUtils";
 
-const fs = getFs();
-
 export function activate(context: vscode.ExtensionContext) {
   const schemaIndex = new SchemaIndex();
   context.subscriptions.push(schemaIndex);
@@ -69,8 +79,13 @@ export class SchemaIndex {
   // Map of project root to schema root
   private schemaModels = new Map<string, Promise<SchemaModel>>();
 
+  // Fires when schema files are created, changed or deleted under any loaded root
+  private schemaChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeSchemas = this.schemaChangeEmitter.event;
+
   constructor() {
     this.disposable = vscode.Disposable.from(
+      this.schemaChangeEmitter,
       // 1. on open, show decorations/diagnostics (load schema)
       vscode.window.onDidChangeActiveTextEditor(
         e(
@@ -117,10 +132,21 @@ export class SchemaIndex {
             errorPrefix: "onDidSaveTextDocument",
           }
         )
+      ),
+      // 5. on rename, move schemas of renamed files and rewrite the code paths pointing to them
+      vscode.workspace.onDidRenameFiles(
+        e(this.onDidRenameFiles, { errorPrefix: "onDidRenameFiles" })
       )
     );
   }
 
+  onDidRenameFiles = async (event: vscode.FileRenameEvent) => {
+    for (const { oldUri, newUri } of event.files) {
+      const model = await this.getSchemaRoot(newUri);
+      await model.onDidRenameFile(oldUri, newUri);
+    }
+  };
+
   // Get the schema root for the given file
   // If there is no schema root for the given file, create one
   async getSchemaRoot(uri: vscode.Uri): Promise<SchemaModel> {
@@ -132,7 +158,9 @@ export class SchemaIndex {
         new Promise(async (resolve, reject) => {
           try {
             const schemaMap = await this.loadExistingSchemas(rootUri);
-            const model = new SchemaModel(rootUri, schemaMap);
+            const model = new SchemaModel(rootUri, schemaMap, () =>
+              this.schemaChangeEmitter.fire()
+            );
             // On first load, publish all diagnostics under this root
             await model.publishAllDiagnostics();
             resolve(model);
@@ -146,28 +174,19 @@ export class SchemaIndex {
   }
 
   private async loadExistingSchemas(rootUri: vscode.Uri) {
-    const schemaFolderUri = buildSchemaPath(rootUri);
     const schemaMap: SchemaMap = new Map();
-    if (!(await exists(schemaFolderUri))) {
-      return schemaMap;
-    }
     log(`Loading existing schemas for ${rootUri.fsPath}`);
-    for (const [schemaName, fileType] of await fs.readDirectory(
-      schemaFolderUri
-    )) {
-      if (fileType === vscode.FileType.File) {
-        const schemaUri = vscode.Uri.joinPath(schemaFolderUri, schemaName);
-        const sourceUri = schemaFileUriToSourceUri(schemaUri);
-        const { schema, hash } = await eStrict(loadSchemaOrEmpty)(
-          rootUri,
-          sourceUri
-        );
-        schemaMap.set(sourceUri.toString(), {
-          schema,
-          hash,
-          hasUnsavedChanges: false,
-        });
-      }
+    for (const schemaUri of await listSchemaFiles(rootUri)) {
+      const sourceUri = schemaFileUriToSourceUri(schemaUri);
+      const { schema, hash } = await eStrict(loadSchemaOrEmpty)(
+        rootUri,
+        sourceUri
+      );
+      schemaMap.set(sourceUri.toString(), {
+        schema,
+        hash,
+        hasUnsavedChanges: false,
+      });
     }
     return schemaMap;
   }
@@ -191,6 +210,34 @@ export class SchemaIndex {
     return model.getSchemaByUri(uri).schema;
   }
 
+  // Load the schema roots of all workspace folders, then list every loaded root with its pinned files
+  // With reload, schema files which changed on disk are loaded again first
+  async getAllSchemaRoots(params: { reload?: boolean } = {}) {
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      await this.getSchemaRoot(folder.uri);
+    }
+    const models = await Promise.all(this.schemaModels.values());
+    if (params.reload) {
+      for (const model of models) {
+        await model.reloadSchemas();
+      }
+    }
+    return models.map((model) => ({
+      rootUri: model.rootUri,
+      files: model.getPinnedFiles(),
+    }));
+  }
+
+  async validateByUri(uri: vscode.Uri) {
+    const model = await this.getSchemaRoot(uri);
+    return await model.validateByUri(uri);
+  }
+
+  async checkByUri(uri: vscode.Uri) {
+    const model = await this.getSchemaRoot(uri);
+    return await model.checkByUri(uri);
+  }
+
   async saveSchemaByUri(
     uri: vscode.Uri,
     schema: CurrentFile,
@@ -243,11 +290,62 @@ export class SchemaIndex {
     }
   }
 
+  /**
+   * Put back a pin as it was before it changed, e.g. to undo pinning the comment again
+   */
+  async restorePin(
+    docUri: vscode.Uri,
+    previous: CurrentComment
+  ): Promise<
+    { status: "restored"; saveUri: vscode.Uri } | { status: "not found" }
+  > {
+    const document = await documentForUri(docUri);
+    const schema = (await this.getSchemaByUri(docUri))!;
+    if (document.isDirty) {
+      throw new Error(
+        `Cannot restore link because of unsaved changes. Please save the document first.`
+      );
+    }
+    const existingIndex = schema.comments.findIndex(
+      (c) => c.id === previous.id
+    );
+    if (existingIndex == -1) {
+      return { status: "not found" };
+    }
+    schema.comments[existingIndex] = previous;
+    const saveUri = await this.saveSchemaByUri(docUri, schema, {
+      checkHash: true,
+    });
+    await this.decorateByUri(docUri);
+    await this.publishDiagnostics(document);
+    return { saveUri, status: "restored" };
+  }
+
+  async updatePinDetails(
+    docUri: vscode.Uri,
+    comment: CurrentComment,
+    details: PinDetails
+  ): Promise<{ status: "updated" } | { status: "not found" }> {
+    const document = await documentForUri(docUri);
+    const schema = (await this.getSchemaByUri(docUri))!;
+    if (updatePinDetails(schema, comment.id, details) == null) {
+      return { status: "not found" };
+    }
+    await this.saveSchemaByUri(docUri, schema, { checkHash: true });
+    await this.publishDiagnostics(document);
+    return { status: "updated" };
+  }
+
   async getAllCommentsByFile(uri: vscode.Uri) {
     const model = await this.getSchemaRoot(uri);
     return model.getAllCommentsByFile(uri.toString());
   }
 
+  async getCodeReferencesByFile(uri: vscode.Uri) {
+    const model = await this.getSchemaRoot(uri);
+    return model.getCodeReferencesByFile(uri.toString());
+  }
+
   async publishDiagnostics(doc: vscode.TextDocument) {
     const model = await this.getSchemaRoot(doc.uri);
     await model.publishDiagnostics(doc);
@@ -292,12 +390,15 @@ class SchemaModel {
   });
 
   constructor(
-    private rootUri: vscode.Uri,
-    private schemaMap: SchemaMap = new Map()
+    readonly rootUri: vscode.Uri,
+    private schemaMap: SchemaMap = new Map(),
+    // Called after the watcher sees a schema file change
+    private onDidChangeSchemas: () => void = () => {}
   ) {
     // Watch the rootUri for changes to schema files using the vscode workspace api
     const watchUri = buildSchemaPath(rootUri);
-    const watchPattern = new vscode.RelativePattern(watchUri, "*.json");
+    // The schema folder mirrors the source tree, so watch every level
+    const watchPattern = new vscode.RelativePattern(watchUri, "**/*.json");
     dlog(
       `Watching schema path: ${watchPattern.baseUri.fsPath} ${watchPattern.pattern}`
     );
@@ -338,6 +439,7 @@ class SchemaModel {
         dlog(`Schema map for ${uri.toString()} is unchanged, skipping`);
       }
     });
+    this.onDidChangeSchemas();
   };
 
   // When schema file changes outside the editor, update the schema map
@@ -356,13 +458,25 @@ class SchemaModel {
     // If the schema file is deleted, remove it from the schema map
     dlog(`Schema file deleted: ${uri.fsPath}`);
     const sourceFileUri = schemaFileUriToSourceUri(uri);
+    // Saving a schema loaded from the legacy layout deletes the legacy file
+    if ((await findSchemaPath(this.rootUri, sourceFileUri)) != null) {
+      return;
+    }
     this.schemaMap.delete(sourceFileUri.toString());
     const editor = editorForUri(sourceFileUri);
     if (editor) {
       this.decorateByEditor(editor);
     }
+    this.onDidChangeSchemas();
   };
 
+  // Load every schema file under the root which is new or changed on disk, e.g. after a git pull
+  async reloadSchemas() {
+    for (const schemaUri of await listSchemaFiles(this.rootUri)) {
+      await this.onSchemaFileCreateOrChange(schemaUri, "reloadSchemas");
+    }
+  }
+
   async publishAllDiagnostics() {
     await Promise.all(
       [...this.schemaMap.keys()].map(async (sourceUri) =>
@@ -374,6 +488,36 @@ class SchemaModel {
     );
   }
 
+  // Source files with at least one pin, with their schemas
+  getPinnedFiles() {
+    return [...this.schemaMap]
+      .filter(([, file]) => file.schema.comments.length > 0)
+      .map(([sourceUri, file]) => ({
+        sourceUri: vscode.Uri.parse(sourceUri),
+        schema: file.schema,
+      }));
+  }
+
+  async validateByUri(sourceFileUri: vscode.Uri) {
+    return validateDocument(
+      await documentForUri(sourceFileUri),
+      this.getSchemaByUri(sourceFileUri).schema,
+      await loadRepoConfig(this.rootUri)
+    );
+  }
+
+  // Validate the pins of the file and publish them as its diagnostics
+  async checkByUri(sourceFileUri: vscode.Uri) {
+    const doc = await documentForUri(sourceFileUri);
+    const errors = await validateDocument(
+      doc,
+      this.getSchemaByUri(sourceFileUri).schema,
+      await loadRepoConfig(this.rootUri)
+    );
+    this.diagnosticCollection.set(doc.uri, errorsToDiagnostics(doc, errors));
+    return errors;
+  }
+
   getCommentReferencesByFile(fileUri: string) {
     if (!this.schemaMap.has(fileUri)) {
       return [];
@@ -396,9 +540,11 @@ class SchemaModel {
       const sourceUri = vscode.Uri.parse(sourceUriString);
       comments.push(
         ...file.schema.comments
-          .filter(
-            (comment) =>
-              resolveCodePath(sourceUri, comment).toString() === fileUri
+          .filter((comment) =>
+            getCodeTargets(comment).some(
+              (target) =>
+                resolveCodePath(sourceUri, target).toString() === fileUri
+            )
           )
           .map((comment) => ({
             comment,
@@ -419,8 +565,17 @@ class SchemaModel {
     return this.getCommentReferencesByFile(fileUri)
       .map((comment) => comment.comment.commentRange)
       .concat(
-        this.getCodeReferencesByFile(fileUri).map(
-          (comment) => comment.comment.codeRange
+        this.getCodeReferencesByFile(fileUri).flatMap(
+          ({ sourceUri, comment }) =>
+            getCodeTargets(comment)
+              .filter(
+                (target) =>
+                  resolveCodePath(
+                    vscode.Uri.parse(sourceUri),
+                    target
+                  ).toString() === fileUri
+              )
+              .map((target) => target.codeRange)
         )
       );
   }
@@ -428,7 +583,8 @@ class SchemaModel {
   async publishDiagnostics(doc: vscode.TextDocument, recurse: boolean = true) {
     const diagnostics = await getDiagnostics(
       doc,
-      this.getSchemaByUri(doc.uri).schema
+      this.getSchemaByUri(doc.uri).schema,
+      await loadRepoConfig(this.rootUri)
     );
     if (diagnostics.length > 0) {
       log(
@@ -442,10 +598,12 @@ class SchemaModel {
       await Promise.all(
         [...this.schemaMap].map(async ([sourceUriString, file]) => {
           const sourceUri = vscode.Uri.parse(sourceUriString);
-          const comments = file.schema.comments.filter(
-            (comment) =>
-              resolveCodePath(sourceUri, comment).toString() ===
-              doc.uri.toString()
+          const comments = file.schema.comments.filter((comment) =>
+            getCodeTargets(comment).some(
+              (target) =>
+                resolveCodePath(sourceUri, target).toString() ===
+                doc.uri.toString()
+            )
           );
           if (comments.length > 0) {
             const sourceDoc = await fileToVscodeDocument(sourceUri);
@@ -511,13 +669,14 @@ class SchemaModel {
       if (params.checkHash && lastSeenHash !== currentHash) {
         throw new Error(`schema for ${uri.toString()} changed outside editor`);
       }
-      const { saveUri, hash: newHash } = await saveSchema(
-        saveRoot,
-        uri,
-        schema
-      );
+      // The saved schema has hashes instead of text when the repository stores hashes only
+      const {
+        saveUri,
+        hash: newHash,
+        schema: savedSchema,
+      } = await saveSchema(saveRoot, uri, schema);
       this.schemaMap.set(uri.toString(), {
-        schema,
+        schema: savedSchema,
         hash: newHash,
         hasUnsavedChanges: false,
       });
@@ -588,6 +747,7 @@ class SchemaModel {
       if (hasUnsavedChanges) {
         await this.saveSchemaByUri(doc.uri, schema, { checkHash: true });
       }
+      await this.updateSymbolRanges(doc.uri);
       // If the current active editor is the one that we just opened then re-render decorations
       const { activeTextEditor } = vscode.window;
       if (activeTextEditor && activeTextEditor.document.uri === doc.uri) {
@@ -597,6 +757,44 @@ class SchemaModel {
     });
   };
 
+  // Move the code ranges of pins anchored to symbols in the saved document to their symbols,
+  // so the decorations, views and command line see the code where the symbols are now
+  async updateSymbolRanges(codeUri: vscode.Uri) {
+    const sourceUris = new Set(
+      this.getCodeReferencesByFile(codeUri.toString()).map(
+        ({ sourceUri }) => sourceUri
+      )
+    );
+    for (const sourceUriString of sourceUris) {
+      const sourceUri = vscode.Uri.parse(sourceUriString);
+      const file = this.getSchemaByUri(sourceUri);
+      let changed = false;
+      const comments = [];
+      for (const comment of file.schema.comments) {
+        const updated = await updateSymbolRanges(
+          sourceUri,
+          comment,
+          loadDocumentSymbols
+        );
+        changed = changed || updated != null;
+        comments.push(updated ?? comment);
+      }
+      if (!changed) {
+        continue;
+      }
+      const schema = { ...file.schema, comments };
+      // Ranges of a comment file with unsaved edits are saved with the file
+      if (
+        file.hasUnsavedChanges &&
+        sourceUri.toString() !== codeUri.toString()
+      ) {
+        file.schema = schema;
+      } else {
+        await this.saveSchemaByUri(sourceUri, schema, { checkHash: true });
+      }
+    }
+  }
+
   onDidOpenTextDocument = async (doc: vscode.TextDocument) => {
     dlog("onDidOpenTextDocument", doc.uri.toString());
     this.diagnosticCollection.delete(doc.uri);
@@ -620,6 +818,55 @@ class SchemaModel {
     }
   };
 
+  onDidRenameFile = async (oldUri: vscode.Uri, newUri: vscode.Uri) => {
+    dlog("onDidRenameFile", oldUri.toString(), newUri.toString());
+    // Files without a schema file only have an empty schema which doesn't need to move
+    const schemas = new Map(
+      [...this.schemaMap]
+        .filter(([, file]) => file.hash !== EMPTY_SCHEMA_HASH)
+        .map(([sourceUri, file]) => [sourceUri, file.schema])
+    );
+    const { moved, changed } = renameInSchemas(schemas, oldUri, newUri);
+    const oldSchemaUris: vscode.Uri[] = [];
+    for (const { from, to } of moved) {
+      const schemaUri = await findSchemaPath(this.rootUri, from);
+      if (schemaUri != null) {
+        oldSchemaUris.push(schemaUri);
+      }
+      this.schemaMap.set(to.toString(), this.schemaMap.get(from.toString())!);
+      this.schemaMap.delete(from.toString());
+      this.diagnosticCollection.delete(from);
+    }
+    // Like mv on the command line, save the moved schemas before deleting their old files
+    const savedPaths = new Set<string>();
+    for (const sourceUri of changed) {
+      const saveUri = await this.saveSchemaByUri(
+        sourceUri,
+        schemas.get(sourceUri.toString())!,
+        { checkHash: false }
+      );
+      savedPaths.add(saveUri.path);
+    }
+    // A moved schema may have been saved where another moved schema used to be
+    for (const schemaUri of oldSchemaUris) {
+      if (!savedPaths.has(schemaUri.path)) {
+        await vscode.workspace.fs.delete(schemaUri);
+      }
+    }
+    if (changed.length > 0) {
+      log(`Updated ${changed.length} schemas for rename of ${oldUri.fsPath}`);
+    }
+    await Promise.all(
+      changed.map(async (sourceUri) =>
+        this.publishDiagnostics(await documentForUri(sourceUri), false)
+      )
+    );
+    const { activeTextEditor } = vscode.window;
+    if (activeTextEditor) {
+      this.decorateByEditor(activeTextEditor);
+    }
+  };
+
   dispose() {
     this.disposable.dispose();
   }
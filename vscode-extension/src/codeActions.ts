@@ -1,14 +1,20 @@
 import { PROJECT_NAME } from "@lib/constants";
-import { ErrorType, ValidationError } from "@lib/validation";
+import {
+  describeMoveFix,
+  ErrorType,
+  listAcceptFixes,
+  ValidationError,
+} from "@lib/validation";
 import * as vscode from "vscode";
 import { SchemaIndex } from "./SchemaIndex";
 import { schemaRangeToVscode } from "./typeConverters";
-import { CurrentComment } from "@lib/types";
+import { CurrentComment, Range as SchemaRange } from "@lib/types";
 import { errorWrapper as e } from "./logging";
 import { documentForUri } from "./vscodeUtils";
-import { resolveCodePath } from "@lib/schema";
+import { getCodeTargets, resolveCodePath, withAcceptedText } from "@lib/schema";
 
 const FIX_MOVED_COMMENT_COMMAND = "code-couplet:fixMovedComment";
+const ACCEPT_CURRENT_TEXT_COMMAND = "code-couplet:acceptCurrentText";
 
 export function activate(
   context: vscode.ExtensionContext,
@@ -32,6 +38,12 @@ class CodeActions {
           showErrorMessage: true,
           errorPrefix: "Quickfix move pinned comment",
         })(args[0])
+      ),
+      vscode.commands.registerCommand(ACCEPT_CURRENT_TEXT_COMMAND, (...args) =>
+        e(this.acceptCurrentText, {
+          showErrorMessage: true,
+          errorPrefix: "Quickfix accept current text",
+        })(args[0])
       )
     );
   }
@@ -93,23 +105,23 @@ class CodeActions {
       if (error.moveFix) {
         const newComment = error.moveFix;
         const oldCommentUri = vscode.Uri.parse(commentUriString);
-        const updateType =
-          errorType === ErrorType.CommentMismatch
-            ? "comment"
-            : errorType === ErrorType.CodeMismatch
-            ? "code"
-            : "comment and code";
-        const title = `New location found: Move ${updateType} pin data`;
         codeActions.push(
-          makeMoveCommentAction(title, oldCommentUri, commentId, newComment)
+          makeMoveCommentAction(
+            describeMoveFix(error),
+            oldCommentUri,
+            commentId,
+            newComment
+          )
         );
       }
 
       // Available actions depend on the error type.
       // For text mismatches, offer to change schema to current value of the range.
+      // Not when only a hash of the text is stored, since the text itself is unknown.
       if (
-        errorType === ErrorType.CommentMismatch ||
-        errorType === ErrorType.BothMismatch
+        (errorType === ErrorType.CommentMismatch ||
+          errorType === ErrorType.BothMismatch) &&
+        error.expected.commentHash == null
       ) {
         codeActions.push(
           makeWorkspaceEditAction(
@@ -121,8 +133,9 @@ class CodeActions {
         );
       }
       if (
-        errorType === ErrorType.CodeMismatch ||
-        errorType === ErrorType.BothMismatch
+        (errorType === ErrorType.CodeMismatch ||
+          errorType === ErrorType.BothMismatch) &&
+        error.expected.codeHash == null
       ) {
         codeActions.push(
           makeWorkspaceEditAction(
@@ -133,6 +146,28 @@ class CodeActions {
           )
         );
       }
+      // Or keep the document, and update the pin to its current text
+      for (const fix of listAcceptFixes(error)) {
+        const action = new vscode.CodeAction(
+          fix.title,
+          vscode.CodeActionKind.QuickFix
+        );
+        action.command = {
+          title: fix.title,
+          command: ACCEPT_CURRENT_TEXT_COMMAND,
+          arguments: [
+            {
+              commentUri: vscode.Uri.parse(commentUriString),
+              commentId,
+              targetIndex: error.targetIndex,
+              codeRange: error.codeLocation.range,
+              comment: fix.comment,
+              code: fix.code,
+            },
+          ],
+        };
+        codeActions.push(action);
+      }
     }
     return codeActions;
   }
@@ -161,14 +196,70 @@ class CodeActions {
     await this.schemaIndex.saveSchemaByUri(oldCommentUri, schema, {
       checkHash: true,
     });
-    const codeUri = resolveCodePath(oldCommentUri, newComment);
-    await this.schemaIndex.decorateByUri(codeUri);
+    for (const target of getCodeTargets(newComment)) {
+      await this.schemaIndex.decorateByUri(
+        resolveCodePath(oldCommentUri, target)
+      );
+    }
     await this.schemaIndex.decorateByUri(oldCommentUri);
     await this.schemaIndex.publishDiagnostics(
       await documentForUri(oldCommentUri)
     );
   };
 
+  acceptCurrentText = async ({
+    commentUri,
+    commentId,
+    targetIndex,
+    codeRange,
+    comment: acceptComment,
+    code: acceptCode,
+  }: {
+    commentUri: vscode.Uri;
+    commentId: number;
+    targetIndex: number;
+    // Current range of the code target, which differs from the stored one for symbols
+    codeRange: SchemaRange;
+    comment: boolean;
+    code: boolean;
+  }) => {
+    const schema = await this.schemaIndex.getSchemaByUri(commentUri);
+    const index = schema.comments.findIndex((c) => c.id === commentId);
+    if (index === -1) {
+      throw new Error("Pin not found, cannot update");
+    }
+    const comment = schema.comments[index];
+    const target = getCodeTargets(comment)[targetIndex];
+    // The code action may be older than the pin, e.g. when a target was removed since
+    if (target == null) {
+      vscode.window.showWarningMessage(
+        `Pin ${commentId} has no code target ${targetIndex} anymore, nothing was accepted`
+      );
+      return;
+    }
+    const codeUri = resolveCodePath(commentUri, target);
+    const commentDocument = await documentForUri(commentUri);
+    const codeDocument = await documentForUri(codeUri);
+    schema.comments[index] = withAcceptedText(comment, {
+      commentValue: acceptComment
+        ? commentDocument.getText(schemaRangeToVscode(comment.commentRange))
+        : undefined,
+      code: acceptCode
+        ? {
+            targetIndex,
+            codeValue: codeDocument.getText(schemaRangeToVscode(codeRange)),
+            codeRange,
+          }
+        : undefined,
+    });
+    await this.schemaIndex.saveSchemaByUri(commentUri, schema, {
+      checkHash: true,
+    });
+    await this.schemaIndex.decorateByUri(codeUri);
+    await this.schemaIndex.decorateByUri(commentUri);
+    await this.schemaIndex.publishDiagnostics(commentDocument);
+  };
+
   dispose() {
     this.disposable.dispose();
   }
@@ -0,0 +1,155 @@
+import { getCodeTargets, resolveCodePath } from "@lib/schema";
+import { PROJECT_NAME } from "@lib/constants";
+import * as vscode from "vscode";
+import { PinReference } from "./commands";
+import { pinStatuses } from "./diagnostics";
+import { errorWrapper as e } from "./logging";
+import { SchemaIndex } from "./SchemaIndex";
+import { schemaRangeToVscode } from "./typeConverters";
+import { describeLocation } from "./vscodeUtils";
+
+export function activate(
+  context: vscode.ExtensionContext,
+  schemaIndex: SchemaIndex
+) {
+  const provider = new CodeLensProvider(schemaIndex);
+  context.subscriptions.push(
+    provider,
+    vscode.languages.registerCodeLensProvider({ scheme: "file" }, provider)
+  );
+}
+
+// Command which opens the file at the range, from the lens of the other side of a pin
+function goTo(title: string, uri: vscode.Uri, range: vscode.Range) {
+  return {
+    title,
+    command: "vscode.open",
+    arguments: [uri, { selection: range }],
+  };
+}
+
+// Lenses to re-pin and unpin, next to the status lens of the pin
+function pinActionLenses(range: vscode.Range, pin: PinReference) {
+  return [
+    new vscode.CodeLens(range, {
+      title: "Re-pin",
+      tooltip: "Pin again with the current text",
+      command: "code-couplet-vscode.repin",
+      arguments: [pin],
+    }),
+    new vscode.CodeLens(range, {
+      title: "Unpin",
+      command: "code-couplet-vscode.unpin",
+      arguments: [pin],
+    }),
+  ];
+}
+
+class CodeLensProvider implements vscode.CodeLensProvider {
+  private disposable: vscode.Disposable;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(private schemaIndex: SchemaIndex) {
+    this.disposable = vscode.Disposable.from(
+      this.changeEmitter,
+      schemaIndex.onDidChangeSchemas(() => this.changeEmitter.fire()),
+      vscode.workspace.onDidSaveTextDocument(() => this.changeEmitter.fire()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(`${PROJECT_NAME}.showCodeLens`)) {
+          this.changeEmitter.fire();
+        }
+      })
+    );
+  }
+
+  async provideCodeLenses(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeLens[]> {
+    if (
+      !vscode.workspace
+        .getConfiguration(PROJECT_NAME)
+        .get<boolean>("showCodeLens")
+    ) {
+      return [];
+    }
+    const allCommentsInFile = await this.schemaIndex.getAllCommentsByFile(
+      document.uri
+    );
+    // Status of the pins of each comment file, null if that file could not be validated
+    const statusesByFile = new Map<string, Map<number, string> | null>();
+    const lenses: vscode.CodeLens[] = [];
+    for (const { sourceUri: sourceUriString, comment } of allCommentsInFile) {
+      if (token.isCancellationRequested) {
+        return [];
+      }
+      const sourceUri = vscode.Uri.parse(sourceUriString);
+      if (!statusesByFile.has(sourceUriString)) {
+        const errors = await e(
+          () => this.schemaIndex.validateByUri(sourceUri),
+          {
+            errorPrefix: `Validating ${sourceUri.fsPath}`,
+          }
+        )();
+        statusesByFile.set(
+          sourceUriString,
+          errors != null ? pinStatuses(errors) : null
+        );
+      }
+      const statuses = statusesByFile.get(sourceUriString);
+      const status =
+        statuses != null ? statuses.get(comment.id) ?? "OK" : "Not checked";
+      const pin = { sourceUri, comment };
+      const commentRange = schemaRangeToVscode(comment.commentRange);
+      const targets = getCodeTargets(comment).map((target) => ({
+        uri: resolveCodePath(sourceUri, target),
+        range: target.codeRange,
+      }));
+
+      // Above the comment, one lens per code target
+      if (sourceUriString === document.uri.toString()) {
+        targets.forEach(({ uri, range }, index) => {
+          const location = describeLocation(uri, range, document.uri);
+          lenses.push(
+            new vscode.CodeLens(
+              commentRange,
+              goTo(
+                index === 0
+                  ? `${status} · pinned to ${location}`
+                  : `and ${location}`,
+                uri,
+                schemaRangeToVscode(range)
+              )
+            )
+          );
+        });
+        lenses.push(...pinActionLenses(commentRange, pin));
+      }
+      // Above each code target in this document, a lens to its comment
+      for (const { uri, range } of targets) {
+        if (uri.toString() !== document.uri.toString()) {
+          continue;
+        }
+        const codeRange = schemaRangeToVscode(range);
+        const location = describeLocation(
+          sourceUri,
+          comment.commentRange,
+          document.uri
+        );
+        lenses.push(
+          new vscode.CodeLens(
+            codeRange,
+            goTo(`${status} · pinned from ${location}`, sourceUri, commentRange)
+          ),
+          ...pinActionLenses(codeRange, pin)
+        );
+      }
+    }
+    return lenses;
+  }
+
+  dispose() {
+    this.disposable.dispose();
+  }
+}
@@ -1,16 +1,48 @@
 import * as vscode from "vscode";
 import { LanguageConfiguration } from "./languageConfiguration";
-import { findSingleLineComments } from "./commentParser";
+import { classifyDocumentLines, findTrailingComments } from "./commentParser";
 
 import { PROJECT_NAME } from "@lib/constants";
-import { getCodeRelativePath } from "@lib/schema";
+import {
+  addPinToSchema,
+  getCodeRelativePath,
+  getCodeTargets,
+  getPinDetails,
+  getSeverity,
+  getSourceRootRelativePath,
+  parseTags,
+  PIN_SEVERITIES,
+  resolveCodePath,
+  updatePinDetails,
+} from "@lib/schema";
+import { getGitAuthor } from "@lib/git";
 import { getErrorMessage } from "@lib/utils";
-import { vscodeRangeToSchema, pos } from "./typeConverters";
-import { findIndexOfMatchingRanges, nextId } from "./schemaTools";
-import { errorWrapper as e } from "./logging";
+import { describeError, ErrorType, ValidationError } from "@lib/validation";
+import { findSymbolPathAt } from "@lib/symbols";
+import { allowsNestedBlockComments } from "@lib/comments";
+import { addSuggestedPins, PinSuggestion, suggestPins } from "@lib/suggest";
+import { loadDocumentSymbols } from "./symbols";
+import {
+  schemaRangeToVscode,
+  vscodeRangeToSchema,
+  pos,
+} from "./typeConverters";
+import { errorWrapper as e, log, showLog } from "./logging";
 import { SchemaIndex } from "./SchemaIndex";
-import { CurrentComment } from "@lib/types";
-import { documentForUri, editorForUri } from "./vscodeUtils";
+import {
+  CurrentComment,
+  CurrentFile,
+  Normalization,
+  PinSeverity,
+  SymbolPath,
+} from "@lib/types";
+import { documentForUri, editorForUri, oneLine } from "./vscodeUtils";
+
+// A pin with the source file of its comment, the argument of commands on one pin
+export type PinReference = {
+  sourceUri: vscode.Uri;
+  comment: CurrentComment;
+};
 
 export function activate(
   context: vscode.ExtensionContext,
@@ -21,6 +53,73 @@ export function activate(
   context.subscriptions.push(commands);
 }
 
+/**
+ * Show a menu of the pins in the schema, with their code values and details as detail
+ */
+async function pickComment(
+  schema: CurrentFile,
+  placeHolder: string
+): Promise<CurrentComment | undefined> {
+  const commentItems = schema.comments.map((comment) => {
+    const { commentRange, commentValue } = comment;
+    return {
+      label: `Line ${commentRange.start.line + 1}: ${commentValue}`,
+      description: getSeverity(comment),
+      detail: [
+        getCodeTargets(comment)
+          .map((target) => target.codeValue)
+          .join(" | "),
+        ...getPinDetails(comment).map(
+          ({ label, value }) => `${label}: ${value}`
+        ),
+      ].join(" · "),
+      comment,
+    };
+  });
+  const selected = await vscode.window.showQuickPick(commentItems, {
+    placeHolder,
+    // So pins can be found by their tags or rationale
+    matchOnDetail: true,
+  });
+  return selected?.comment;
+}
+
+async function pickSeverity(
+  current: PinSeverity
+): Promise<PinSeverity | undefined> {
+  const items = PIN_SEVERITIES.map((severity) => ({
+    label: severity,
+    description: severity === current ? "current" : undefined,
+  }));
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select how the pin is reported when it breaks",
+  });
+  return selected?.label;
+}
+
+const NORMALIZATION_DESCRIPTIONS: { [key in Normalization]: string } = {
+  exact: "Compare byte for byte",
+  trim: "Ignore whitespace at the start and end of each line",
+  whitespace: "Treat every run of whitespace as a single space",
+  comment: "Also ignore the line comment marker at the start of each line",
+};
+
+async function pickNormalization(
+  current: Normalization | undefined
+): Promise<Normalization | undefined> {
+  const items = Object.entries(NORMALIZATION_DESCRIPTIONS).map(
+    ([normalization, detail]) => ({
+      label: normalization as Normalization,
+      description: normalization === current ? "current" : undefined,
+      detail,
+    })
+  );
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select how the pinned text is compared with the document",
+  });
+  return selected?.label;
+}
+
 function lastCharacterOfLine(
   document: vscode.TextDocument,
   line: number
@@ -56,11 +155,78 @@ class Commands {
           errorPrefix: "Remove Link Command",
         })()
       ),
+      vscode.commands.registerCommand(
+        "code-couplet-vscode.setPinSeverity",
+        () =>
+          e(this.setPinSeverityCommand, {
+            showErrorMessage: true,
+            errorPrefix: "Set Pin Severity Command",
+          })()
+      ),
+      vscode.commands.registerCommand(
+        "code-couplet-vscode.editPinDetails",
+        () =>
+          e(this.editPinDetailsCommand, {
+            showErrorMessage: true,
+            errorPrefix: "Edit Pin Details Command",
+          })()
+      ),
+      vscode.commands.registerCommand(
+        "code-couplet-vscode.setPinNormalization",
+        () =>
+          e(this.setPinNormalizationCommand, {
+            showErrorMessage: true,
+            errorPrefix: "Set Pin Comparison Mode Command",
+          })()
+      ),
+      vscode.commands.registerCommand("code-couplet-vscode.suggestPins", () =>
+        e(this.suggestPinsCommand, {
+          showErrorMessage: true,
+          errorPrefix: "Suggest Pins Command",
+        })()
+      ),
+      vscode.commands.registerCommand("code-couplet-vscode.linkSymbol", () =>
+        e(this.linkSymbolCommand, {
+          showErrorMessage: true,
+          errorPrefix: "Pin Comment to Symbol",
+        })()
+      ),
+      vscode.commands.registerCommand("code-couplet-vscode.checkAllPins", () =>
+        e(this.checkAllPinsCommand, {
+          showErrorMessage: true,
+          errorPrefix: "Check All Pins Command",
+        })()
+      ),
       vscode.commands.registerCommand("code-couplet-vscode.linkSelection", () =>
         e(this.linkCommentCommand, {
           showErrorMessage: true,
           errorPrefix: "Link Comment",
         })()
+      ),
+      // Commands on one pin, run from the pins view
+      vscode.commands.registerCommand(
+        "code-couplet-vscode.revealPin",
+        (pin: PinReference) =>
+          e(this.revealPinCommand, {
+            showErrorMessage: true,
+            errorPrefix: "Reveal Pin",
+          })(pin)
+      ),
+      vscode.commands.registerCommand(
+        "code-couplet-vscode.repin",
+        (pin: PinReference) =>
+          e(this.repinCommand, {
+            showErrorMessage: true,
+            errorPrefix: "Re-Pin",
+          })(pin)
+      ),
+      vscode.commands.registerCommand(
+        "code-couplet-vscode.unpin",
+        (pin: PinReference) =>
+          e(this.unpinCommand, {
+            showErrorMessage: true,
+            errorPrefix: "Unpin",
+          })(pin)
       )
     );
   }
@@ -71,8 +237,13 @@ class Commands {
   async commitNewRangeToMap(
     config: LanguageConfiguration,
     commentLocation: vscode.Location,
-    codeLocation: vscode.Location
-  ): Promise<{ status: string; comment: CurrentComment }> {
+    codeLocation: vscode.Location,
+    codeSymbol?: SymbolPath
+  ): Promise<{
+    status: string;
+    comment: CurrentComment;
+    previous?: CurrentComment;
+  }> {
     const commentDocument = await documentForUri(commentLocation.uri);
     const codeDocument = await documentForUri(codeLocation.uri);
     const schema = (await this.schemaIndex.getSchemaByUri(
@@ -93,43 +264,46 @@ class Commands {
     const commentValue = commentDocument.getText(commentLocation.range);
     const codeValue = codeDocument.getText(codeLocation.range);
 
-    const existingIndex = findIndexOfMatchingRanges(
+    const defaultSeverity = vscode.workspace
+      .getConfiguration(PROJECT_NAME)
+      .get<PinSeverity>("defaultPinSeverity");
+
+    const result = addPinToSchema(
       schema,
-      commentLocation.range,
-      codeLocation.range
-    );
-    if (existingIndex == -1) {
-      const id = nextId(schema);
-      const comment = {
-        commentRange: vscodeRangeToSchema(commentLocation.range),
+      vscodeRangeToSchema(commentLocation.range),
+      commentValue,
+      {
         codeRange: vscodeRangeToSchema(codeLocation.range),
         codeRelativePath: getCodeRelativePath(
           commentLocation.uri,
           codeLocation.uri
         ),
-        commentValue,
         codeValue,
-        id,
-      };
-      schema.comments.push(comment);
-      await this.schemaIndex.saveSchemaByUri(commentLocation.uri, schema, {
-        checkHash: true,
-      });
-      await this.schemaIndex.decorateByUri(codeLocation.uri);
-      await this.schemaIndex.decorateByUri(commentLocation.uri);
-      await this.schemaIndex.publishDiagnostics(commentDocument);
-      return { status: "added", comment };
-    } else {
-      schema.comments[existingIndex].commentValue = commentValue;
-      schema.comments[existingIndex].codeValue = codeValue;
-      await this.schemaIndex.saveSchemaByUri(commentLocation.uri, schema, {
-        checkHash: true,
-      });
-      await this.schemaIndex.decorateByUri(codeLocation.uri);
-      await this.schemaIndex.decorateByUri(commentLocation.uri);
-      await this.schemaIndex.publishDiagnostics(commentDocument);
-      return { status: "updated", comment: schema.comments[existingIndex] };
+        ...(codeSymbol != null ? { codeSymbol } : {}),
+      },
+      {
+        author: await getGitAuthor(
+          vscode.Uri.joinPath(commentLocation.uri, "..")
+        ),
+      }
+    );
+    // Pins without a severity are errors, so only store the setting when it's something else
+    if (
+      result.status === "added" &&
+      defaultSeverity != null &&
+      defaultSeverity !== "error"
+    ) {
+      result.comment = updatePinDetails(schema, result.comment.id, {
+        severity: defaultSeverity,
+      })!;
     }
+    await this.schemaIndex.saveSchemaByUri(commentLocation.uri, schema, {
+      checkHash: true,
+    });
+    await this.schemaIndex.decorateByUri(codeLocation.uri);
+    await this.schemaIndex.decorateByUri(commentLocation.uri);
+    await this.schemaIndex.publishDiagnostics(commentDocument);
+    return result;
   }
 
   /**
@@ -137,14 +311,16 @@ class Commands {
    */
   async commitNewRangeAndShowMessage(
     commentLocation: vscode.Location,
-    codeLocation: vscode.Location
+    codeLocation: vscode.Location,
+    codeSymbol?: SymbolPath
   ) {
     let result;
     try {
       result = await this.commitNewRangeToMap(
         this.languageConfig,
         commentLocation,
-        codeLocation
+        codeLocation,
+        codeSymbol
       );
     } catch (e) {
       throw new Error(`could not save comment link: ${getErrorMessage(e)}`);
@@ -165,9 +341,76 @@ class Commands {
     }
   }
 
+  /**
+   * Commit many new pins within one document to its map file with a single save
+   */
+  async commitSuggestedPinsToMap(
+    uri: vscode.Uri,
+    suggestions: PinSuggestion[]
+  ) {
+    const document = await documentForUri(uri);
+    if (document.isDirty) {
+      throw new Error(
+        `Cannot link comments to code because of unsaved changes. Please save the document first.`
+      );
+    }
+    const schema = (await this.schemaIndex.getSchemaByUri(uri))!;
+    const commentConfig = await this.languageConfig.GetCommentConfiguration(
+      document.languageId
+    );
+    schema.configuration.lineComment = commentConfig?.lineComment || null;
+    const defaultSeverity = vscode.workspace
+      .getConfiguration(PROJECT_NAME)
+      .get<PinSeverity>("defaultPinSeverity");
+    // All suggestions are new pins, so their severity can be given directly
+    addSuggestedPins(schema, suggestions, {
+      author: await getGitAuthor(vscode.Uri.joinPath(uri, "..")),
+      severity: defaultSeverity !== "error" ? defaultSeverity : undefined,
+    });
+    await this.schemaIndex.saveSchemaByUri(uri, schema, { checkHash: true });
+    await this.schemaIndex.decorateByUri(uri);
+    await this.schemaIndex.publishDiagnostics(document);
+  }
+
+  /**
+   * Save one link per line between its trailing comment and the code before it
+   * @param params.quiet save without showing a message, even for a single comment
+   */
+  async commitTrailingComments(
+    uri: vscode.Uri,
+    trailingComments: { comment: vscode.Range; code: vscode.Range }[],
+    params: { quiet?: boolean } = {}
+  ) {
+    if (trailingComments.length === 1 && !params.quiet) {
+      const [{ comment, code }] = trailingComments;
+      await this.commitNewRangeAndShowMessage(
+        { range: comment, uri },
+        { range: code, uri }
+      );
+      return;
+    }
+    const document = await documentForUri(uri);
+    await this.commitSuggestedPinsToMap(
+      uri,
+      trailingComments.map(({ comment, code }) => ({
+        commentRange: vscodeRangeToSchema(comment),
+        commentValue: document.getText(comment),
+        codeRange: vscodeRangeToSchema(code),
+        codeValue: document.getText(code),
+      }))
+    );
+    if (!params.quiet) {
+      vscode.window.setStatusBarMessage(
+        `Comment link: pinned ${trailingComments.length} trailing comments`,
+        4000
+      );
+    }
+  }
+
   /**
    * VS Code command that expects a selection in the active editor that contains a comment followed by code
    * if we find that selection, then link the comment with the code and save to the schema
+   * comments at the end of a line of code are linked with that code, also after a comment block
    */
   autoLinkSelectionCommand = async () => {
     const editor = vscode.window.activeTextEditor;
@@ -188,38 +431,40 @@ class Commands {
       );
     }
 
-    const start = range != null ? range.start : pos(0, 0);
-    const end = range != null ? range.end : pos(editor.document.lineCount, 0);
-    const commentsInSelection = await findSingleLineComments(
-      editor,
-      this.languageConfig,
-      {
-        range,
-        throwOnEmpty: true,
-      }
+    let start = range != null ? range.start : pos(0, 0);
+    const end =
+      range != null ? range.end : pos(editor.document.lineCount - 1, 0);
+    const lineTypes = await classifyDocumentLines(
+      editor.document,
+      this.languageConfig
     );
-    const linesWithComments = new Set<number>();
-    for (const range of commentsInSelection) {
-      linesWithComments.add(range.start.line);
-    }
-    // For now we only consider the case where the selection is comment(s) followed by code
-    // Only one of each, and they cannot be on the same line
-    // TODO later: in the future consider other formats such as inline comments
-    const getLineType = (line: number): "comment" | "empty" | "code" => {
-      if (linesWithComments.has(line)) {
-        return "comment";
-      }
-      const { text } = editor.document.lineAt(line);
-      // If a whitespace only search matches the whole line, then it's empty
-      if (/\s*/g.exec(text)![0].length === text.length) {
-        return "empty";
+    // Include the whole comment block when the selection starts inside it
+    while (
+      start.line > 0 &&
+      lineTypes[start.line] === "comment" &&
+      lineTypes[start.line - 1] === "comment"
+    ) {
+      start = pos(start.line - 1, 0);
+    }
+    // Without comment lines, pin the comment at the end of each line to the code before it
+    if (!lineTypes.slice(start.line, end.line + 1).includes("comment")) {
+      const trailingComments = await findTrailingComments(
+        editor,
+        this.languageConfig,
+        { range }
+      );
+      if (trailingComments.length === 0) {
+        throw new Error("no comments found in selection");
       }
-      return "code";
-    };
+      await this.commitTrailingComments(editor.document.uri, trailingComments);
+      return;
+    }
+    // Otherwise the selection is comment(s) followed by code
+    // Only one of each, and comments after code on the same line are part of the code
     let commentRange: vscode.Range | undefined;
     let codeRange: vscode.Range | undefined;
     for (let line = start.line; line <= end.line; line++) {
-      const lineType = getLineType(line);
+      const lineType = lineTypes[line];
       if (lineType === "empty") {
         continue;
       }
@@ -257,12 +502,75 @@ class Commands {
     if (!codeRange) {
       throw new Error("no code block found in selection");
     }
+    // Saved first, since the message of the comment block's pin waits for the user
+    const trailingComments = await findTrailingComments(
+      editor,
+      this.languageConfig,
+      { range: codeRange }
+    );
+    if (trailingComments.length > 0) {
+      await this.commitTrailingComments(editor.document.uri, trailingComments, {
+        quiet: true,
+      });
+    }
     await this.commitNewRangeAndShowMessage(
       { range: commentRange, uri: editor.document.uri },
       { range: codeRange, uri: editor.document.uri }
     );
   };
 
+  /**
+   * VS Code command that suggests pins for the comment blocks in the current file directly followed by code
+   * The user picks the suggestions to pin from a multi-select menu, then they are saved at once
+   */
+  suggestPinsCommand = async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+    const { document } = editor;
+    const schema = await this.schemaIndex.getSchemaByUri(document.uri);
+    const commentConfig = await this.languageConfig.GetCommentConfiguration(
+      document.languageId
+    );
+    const suggestions = suggestPins(
+      document.getText(),
+      schema,
+      commentConfig || {},
+      { nested: allowsNestedBlockComments(document.languageId) }
+    );
+    if (suggestions.length === 0) {
+      vscode.window.showInformationMessage(
+        "No unpinned comments followed by code found in this file"
+      );
+      return;
+    }
+    const items = suggestions.map((suggestion) => ({
+      label: `Line ${suggestion.commentRange.start.line + 1}: ${oneLine(
+        suggestion.commentValue
+      )}`,
+      detail: oneLine(suggestion.codeValue),
+      picked: true,
+      suggestion,
+    }));
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select the comments to pin to the code after them",
+      canPickMany: true,
+      matchOnDetail: true,
+    });
+    if (!selected || selected.length === 0) {
+      return;
+    }
+    await this.commitSuggestedPinsToMap(
+      document.uri,
+      selected.map((item) => item.suggestion)
+    );
+    vscode.window.setStatusBarMessage(
+      `Comment link: pinned ${selected.length} suggested comments`,
+      4000
+    );
+  };
+
   /**
    * VS Code command that shows a menu of all the comments in the current file
    * Selecting a comment from the menu will remove it from the file's schema
@@ -281,24 +589,16 @@ class Commands {
     if (schema.comments.length === 0) {
       throw new Error("No comments found in this file");
     }
-    // Show the list of comments in a quickpick menu, with the corresponding code value as detail
-    const commentItems = schema.comments.map((comment) => {
-      const { commentRange, commentValue, codeValue, id } = comment;
-      return {
-        label: `Line ${commentRange.start.line + 1}: ${commentValue}`,
-        detail: codeValue,
-        comment,
-      };
-    });
-    const selectedComment = await vscode.window.showQuickPick(commentItems, {
-      placeHolder: "Select a comment to remove",
-    });
+    const selectedComment = await pickComment(
+      schema,
+      "Select a comment to remove"
+    );
     if (!selectedComment) {
       return;
     }
     const { status } = await this.schemaIndex.removeCommentFromSchema(
       uri,
-      selectedComment.comment
+      selectedComment
     );
     if (status === "removed") {
       vscode.window.setStatusBarMessage(`Comment link: ${status}`, 4000);
@@ -307,6 +607,266 @@ class Commands {
     }
   };
 
+  /**
+   * VS Code command that validates every pin of every workspace folder without opening their files,
+   * then writes how many pins are broken by error type, with their locations, to the output channel
+   */
+  checkAllPinsCommand = async () => {
+    const roots = await this.schemaIndex.getAllSchemaRoots({ reload: true });
+    const files = roots.flatMap(({ rootUri, files }) =>
+      files.map((file) => ({ rootUri, ...file }))
+    );
+    const report = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Code Couplet: Checking pins",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const errors: ValidationError[] = [];
+        const failures: string[] = [];
+        let pinCount = 0;
+        let brokenCount = 0;
+        let fileCount = 0;
+        for (const { rootUri, sourceUri, schema } of files) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({
+            message: getSourceRootRelativePath(rootUri, sourceUri),
+            increment: 100 / files.length,
+          });
+          try {
+            const fileErrors = await this.schemaIndex.checkByUri(sourceUri);
+            errors.push(...fileErrors);
+            // A pin has an error for each drifted code target, and pin ids are unique per file
+            brokenCount += new Set(fileErrors.map((error) => error.commentId))
+              .size;
+            pinCount += schema.comments.length;
+            fileCount++;
+          } catch (e) {
+            failures.push(`${sourceUri.fsPath}: ${getErrorMessage(e)}`);
+          }
+        }
+        return {
+          errors,
+          failures,
+          pinCount,
+          brokenCount,
+          fileCount,
+          cancelled: token.isCancellationRequested,
+        };
+      }
+    );
+
+    const { errors, failures, pinCount, brokenCount, fileCount, cancelled } =
+      report;
+    const summary = `Checked ${pinCount} pins in ${fileCount} files${
+      cancelled ? " (cancelled)" : ""
+    }: ${brokenCount} broken`;
+    log(summary);
+    // Numeric enums also map their names to values, keep only the values
+    const errorTypes = Object.values(ErrorType).filter(
+      (value): value is ErrorType => typeof value === "number"
+    );
+    for (const errorType of errorTypes) {
+      const ofType = errors.filter((error) => error.errorType === errorType);
+      if (ofType.length === 0) {
+        continue;
+      }
+      log(`${ErrorType[errorType]}: ${ofType.length}`);
+      for (const error of ofType) {
+        const { start } = error.commentRange;
+        // Absolute paths with line and column are links in the output channel
+        log(
+          `  ${vscode.Uri.parse(error.commentUriString).fsPath}:${
+            start.line + 1
+          }:${start.char + 1} ${describeError(error)}`
+        );
+      }
+    }
+    if (failures.length > 0) {
+      log(`Could not check ${failures.length} files:`);
+      failures.forEach((failure) => log(`  ${failure}`));
+    }
+    showLog();
+    vscode.window.setStatusBarMessage(summary, 4000);
+  };
+
+  /**
+   * VS Code command that opens the file of the pin and selects its comment
+   */
+  revealPinCommand = async (pin: PinReference) => {
+    const document = await vscode.workspace.openTextDocument(pin.sourceUri);
+    const range = schemaRangeToVscode(pin.comment.commentRange);
+    await vscode.window.showTextDocument(document, { selection: range });
+  };
+
+  /**
+   * VS Code command that pins the comment again to each of its code targets,
+   * with the current text at their ranges
+   */
+  repinCommand = async (pin: PinReference) => {
+    const { sourceUri, comment } = pin;
+    const commentLocation = {
+      range: schemaRangeToVscode(comment.commentRange),
+      uri: sourceUri,
+    };
+    let result;
+    for (const target of getCodeTargets(comment)) {
+      result = await this.commitNewRangeToMap(
+        this.languageConfig,
+        commentLocation,
+        {
+          range: schemaRangeToVscode(target.codeRange),
+          uri: resolveCodePath(sourceUri, target),
+        },
+        target.codeSymbol
+      );
+    }
+    vscode.window.setStatusBarMessage(`Comment link: ${result?.status}`, 4000);
+  };
+
+  /**
+   * VS Code command that removes the pin from the schema of its file
+   */
+  unpinCommand = async (pin: PinReference) => {
+    const { status } = await this.schemaIndex.removeCommentFromSchema(
+      pin.sourceUri,
+      pin.comment
+    );
+    if (status === "removed") {
+      vscode.window.setStatusBarMessage(`Comment link: ${status}`, 4000);
+    } else {
+      throw new Error(`could not remove comment link: ${status}`);
+    }
+  };
+
+  /**
+   * VS Code command that shows a menu of all the comments in the current file,
+   * then a menu of severities to change how the selected pin is reported when it breaks
+   */
+  setPinSeverityCommand = async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+    const { uri } = editor.document;
+    const schema = await this.schemaIndex.getSchemaByUri(uri);
+    if (!schema) {
+      return;
+    }
+    if (schema.comments.length === 0) {
+      throw new Error("No comments found in this file");
+    }
+    const comment = await pickComment(schema, "Select a comment");
+    if (comment) {
+      await this.changeSeverity(uri, comment);
+    }
+  };
+
+  async changeSeverity(uri: vscode.Uri, comment: CurrentComment) {
+    const severity = await pickSeverity(getSeverity(comment));
+    if (!severity) {
+      return;
+    }
+    const { status } = await this.schemaIndex.updatePinDetails(uri, comment, {
+      severity,
+    });
+    if (status === "updated") {
+      vscode.window.setStatusBarMessage(`Pin severity: ${severity}`, 4000);
+    } else {
+      throw new Error(`could not set pin severity: ${status}`);
+    }
+  }
+
+  /**
+   * VS Code command that shows a menu of all the comments in the current file,
+   * then a menu of comparison modes for the selected pin
+   */
+  setPinNormalizationCommand = async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+    const { uri } = editor.document;
+    const schema = await this.schemaIndex.getSchemaByUri(uri);
+    if (!schema) {
+      return;
+    }
+    if (schema.comments.length === 0) {
+      throw new Error("No comments found in this file");
+    }
+    const comment = await pickComment(schema, "Select a comment");
+    if (!comment) {
+      return;
+    }
+    const normalization = await pickNormalization(comment.normalization);
+    if (!normalization) {
+      return;
+    }
+    const { status } = await this.schemaIndex.updatePinDetails(uri, comment, {
+      normalization,
+    });
+    if (status === "updated") {
+      vscode.window.setStatusBarMessage(
+        `Pin comparison mode: ${normalization}`,
+        4000
+      );
+    } else {
+      throw new Error(`could not set pin comparison mode: ${status}`);
+    }
+  };
+
+  /**
+   * VS Code command that shows a menu of all the comments in the current file,
+   * then asks for the rationale and tags of the selected pin
+   */
+  editPinDetailsCommand = async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+    const { uri } = editor.document;
+    const schema = await this.schemaIndex.getSchemaByUri(uri);
+    if (!schema) {
+      return;
+    }
+    if (schema.comments.length === 0) {
+      throw new Error("No comments found in this file");
+    }
+    const comment = await pickComment(schema, "Select a comment");
+    if (comment) {
+      await this.editDetails(uri, comment);
+    }
+  };
+
+  async editDetails(uri: vscode.Uri, comment: CurrentComment) {
+    const rationale = await vscode.window.showInputBox({
+      prompt: "Why do the comment and code have to stay in sync? (optional)",
+      value: comment.rationale || "",
+    });
+    if (rationale == null) {
+      return;
+    }
+    const tags = await vscode.window.showInputBox({
+      prompt: "Tags of the pin, separated by commas (optional)",
+      value: comment.tags.join(", "),
+    });
+    if (tags == null) {
+      return;
+    }
+    const { status } = await this.schemaIndex.updatePinDetails(uri, comment, {
+      rationale,
+      tags: parseTags(tags),
+    });
+    if (status === "updated") {
+      vscode.window.setStatusBarMessage(`Pin details: ${status}`, 4000);
+    } else {
+      throw new Error(`could not edit pin details: ${status}`);
+    }
+  }
+
   /**
    * VS Code command that will set the current selection as a comment,
    * then tell the user to select the corresponding code and run the link command
@@ -366,21 +926,79 @@ class Commands {
   };
 
   /**
-   * Shows a linking success info message with buttons to undo and never show again
+   * VS Code command that pins the comment selected by the first step of the link command
+   * to the innermost symbol (function, method, class...) at the cursor.
+   * The pin follows the symbol when code above it changes, even outside the editor.
+   */
+  linkSymbolCommand = async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+    if (!this.currentLinkContext) {
+      throw new Error(
+        "No comment selected, select a comment and run Pin Selection first"
+      );
+    }
+    if (editor.document.isDirty) {
+      throw new Error("Please save the document before linking comment");
+    }
+    const symbols = await loadDocumentSymbols(editor.document.uri);
+    const symbol =
+      symbols &&
+      findSymbolPathAt(symbols, vscodeRangeToSchema(editor.selection).start);
+    if (!symbol) {
+      throw new Error("No symbol found at the cursor");
+    }
+    const { commentLocation } = this.currentLinkContext;
+    this.currentLinkContext = null;
+    await this.commitNewRangeAndShowMessage(
+      commentLocation,
+      {
+        range: schemaRangeToVscode(symbol.range),
+        uri: editor.document.uri,
+      },
+      symbol.path
+    );
+  };
+
+  /**
+   * Shows a linking success info message with buttons to undo, set the severity or details, and never show again
    */
   async showLinkingSuccessMessage(
     commentDocUri: vscode.Uri,
-    result: { status: string; comment: CurrentComment }
+    result: {
+      status: string;
+      comment: CurrentComment;
+      previous?: CurrentComment;
+    }
   ) {
-    const { status, comment } = result;
+    const { status, comment, previous } = result;
     const undo = "Undo";
+    const setSeverity = "Set severity";
+    const addDetails = "Add details";
     const neverAgain = "Don't show again";
     const choice = await vscode.window.showInformationMessage(
       `Comment link: ${status}`,
       undo,
+      setSeverity,
+      addDetails,
       neverAgain
     );
-    if (choice === undo) {
+    // A comment which was already pinned gets its previous pin back, with its other targets
+    if (choice === undo && previous != null) {
+      const undoResult = await this.schemaIndex.restorePin(
+        commentDocUri,
+        previous
+      );
+      if (undoResult.status == "not found") {
+        throw new Error(`could not undo comment link: link not found`);
+      } else {
+        vscode.window.showInformationMessage("Restored previous comment link", {
+          detail: `Location: ${undoResult.saveUri.fsPath}`,
+        });
+      }
+    } else if (choice === undo) {
       const undoResult = await this.schemaIndex.removeCommentFromSchema(
         commentDocUri,
         comment
@@ -392,6 +1010,10 @@ class Commands {
           detail: `Location: ${undoResult.saveUri.fsPath}`,
         });
       }
+    } else if (choice === setSeverity) {
+      await this.changeSeverity(commentDocUri, comment);
+    } else if (choice === addDetails) {
+      await this.editDetails(commentDocUri, comment);
     } else if (choice === neverAgain) {
       await vscode.workspace
         .getConfiguration(PROJECT_NAME)
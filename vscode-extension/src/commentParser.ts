@@ -1,60 +1,73 @@
 import * as vscode from "vscode";
+import {
+  allowsNestedBlockComments,
+  classifyLines,
+  findTrailingComment,
+  getStringQuotes,
+  LineType,
+} from "@lib/comments";
 import { LanguageConfiguration } from "./languageConfiguration";
 
 /**
- * Escapes a given string for use in a regular expression
- * @param input The input string to be escaped
- * @returns {string} The escaped string
+ * Classify every line of the document as comment, empty or code, see classifyLines
  */
-// source: https://stackoverflow.com/questions/3446170/escape-string-for-use-in-javascript-regex
-function escapeRegExp(input: string): string {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"); // $& means the whole matched string
+export async function classifyDocumentLines(
+  document: vscode.TextDocument,
+  config: LanguageConfiguration
+): Promise<LineType[]> {
+  const commentConfig = await config.GetCommentConfiguration(
+    document.languageId
+  );
+  return classifyLines(document.getText(), commentConfig || {}, {
+    nested: allowsNestedBlockComments(document.languageId),
+  });
 }
 
 /**
- * Find single line comments from a vscode active editor
+ * Find comments following code on the same line, e.g. `const RETRIES = 3; // see backoff`
  * If range is not provided, the entire document is searched
- * @returns ranges for each comment found
+ * @returns the range of each comment and of the code before it, without surrounding whitespace
  */
-export async function findSingleLineComments(
+export async function findTrailingComments(
   editor: vscode.TextEditor,
   config: LanguageConfiguration,
   extraParams: {
     range?: vscode.Range;
-    throwOnEmpty?: boolean;
   } = {}
-): Promise<vscode.Range[]> {
-  const { range, throwOnEmpty } = extraParams;
+): Promise<{ comment: vscode.Range; code: vscode.Range }[]> {
+  const { range } = extraParams;
+  const { document } = editor;
   const commentConfig = await config.GetCommentConfiguration(
-    editor.document.languageId
+    document.languageId
   );
-  if (commentConfig == null || !commentConfig.lineComment) {
+  if (commentConfig == null) {
     return [];
   }
-  const { lineComment } = commentConfig;
-  // remember to also escape forward slashes
-  const expression = escapeRegExp(lineComment).replace(/\//gi, "\\/");
-  // make a regex from expression, "g" required to match all lines
-  // add the .*$ to match the end of the line
-  // prepend the ^\s* to match whitespace at the start of the line
-  const regex = new RegExp(`^\\s*${expression}.*$`, "gm");
-  // apply regex across the content of the editor in the given range
-  // note that undefined range = entire document
-  const content = editor.document.getText(range);
+  const startLine = range ? range.start.line : 0;
+  const endLine = range ? range.end.line : document.lineCount - 1;
+  const quotes = getStringQuotes(document.languageId);
   const matches = [];
-  const offset = range ? editor.document.offsetAt(range.start) : 0;
-  let match;
-  while ((match = regex.exec(content))) {
-    let startPos = editor.document.positionAt(offset + match.index);
-    let endPos = editor.document.positionAt(
-      offset + match.index + match[0].length
-    );
-    matches.push(new vscode.Range(startPos, endPos));
-  }
-  if (throwOnEmpty && matches.length === 0) {
-    throw new Error(
-      `no single-line comments found, was looking for ${lineComment} in lines`
-    );
+  for (let line = startLine; line <= endLine; line++) {
+    const { text } = document.lineAt(line);
+    const commentStart = findTrailingComment(text, commentConfig, { quotes });
+    if (commentStart == null) {
+      continue;
+    }
+    const codeText = text.slice(0, commentStart);
+    matches.push({
+      comment: new vscode.Range(
+        line,
+        commentStart,
+        line,
+        text.trimEnd().length
+      ),
+      code: new vscode.Range(
+        line,
+        codeText.length - codeText.trimStart().length,
+        line,
+        codeText.trimEnd().length
+      ),
+    });
   }
   return matches;
 }
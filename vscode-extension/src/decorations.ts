@@ -1,4 +1,4 @@
-import { resolveCodePath } from "@lib/schema";
+import { getCodeTargets, resolveCodePath } from "@lib/schema";
 import { CurrentCommentWithUri } from "@lib/types";
 import * as vscode from "vscode";
 import { log } from "./logging";
@@ -38,12 +38,14 @@ export function decorate(
       const commentRange = schemaRangeToVscode(comment.commentRange);
       commentRanges.push(commentRange);
     }
-    if (
-      resolveCodePath(vscode.Uri.parse(sourceUri), comment).toString() ===
-      editorUri
-    ) {
-      const codeRange = schemaRangeToVscode(comment.codeRange);
-      codeRanges.push(codeRange);
+    for (const target of getCodeTargets(comment)) {
+      if (
+        resolveCodePath(vscode.Uri.parse(sourceUri), target).toString() ===
+        editorUri
+      ) {
+        const codeRange = schemaRangeToVscode(target.codeRange);
+        codeRanges.push(codeRange);
+      }
     }
   }
   editor.setDecorations(commentDecorationType, commentRanges);
@@ -1,4 +1,4 @@
-import { resolveCodePath } from "@lib/schema";
+import { getCodeTargets, resolveCodePath } from "@lib/schema";
 import * as vscode from "vscode";
 import { SchemaIndex } from "./SchemaIndex";
 import { schemaRangeToVscode } from "./typeConverters";
@@ -30,26 +30,27 @@ class DefinitionProvider implements vscode.DefinitionProvider {
         return;
       }
       const commentRange = schemaRangeToVscode(comment.commentRange);
+      const targets = getCodeTargets(comment).map((target) => ({
+        uri: resolveCodePath(vscode.Uri.parse(sourceUri), target),
+        range: schemaRangeToVscode(target.codeRange),
+      }));
       if (
         sourceUri === document.uri.toString() &&
         commentRange.contains(position)
       ) {
-        // Only provide the definition if the code is in a different file
-        const codeUri = resolveCodePath(vscode.Uri.parse(sourceUri), comment);
-        if (codeUri.toString() !== document.uri.toString()) {
-          return {
-            uri: resolveCodePath(vscode.Uri.parse(sourceUri), comment),
-            range: schemaRangeToVscode(comment.codeRange),
-          };
+        // Only provide the definitions of code in a different file
+        const locations = targets
+          .filter(({ uri }) => uri.toString() !== document.uri.toString())
+          .map(({ uri, range }) => new vscode.Location(uri, range));
+        if (locations.length > 0) {
+          return locations;
         }
       }
-      const codeRange = schemaRangeToVscode(comment.codeRange);
-      const codeUri = resolveCodePath(vscode.Uri.parse(sourceUri), comment);
-      if (
-        codeUri.toString() === document.uri.toString() &&
-        codeRange.contains(position) &&
-        sourceUri !== document.uri.toString()
-      ) {
+      const isInCode = targets.some(
+        ({ uri, range }) =>
+          uri.toString() === document.uri.toString() && range.contains(position)
+      );
+      if (isInCode && sourceUri !== document.uri.toString()) {
         return {
           uri: vscode.Uri.parse(sourceUri),
           range: schemaRangeToVscode(comment.commentRange),
@@ -1,30 +1,61 @@
 import * as vscode from "vscode";
 
-import { CurrentFile } from "@lib/types";
+import { CurrentFile, PinSeverity } from "@lib/types";
+import { RepoConfig } from "@lib/config";
 import { PROJECT_NAME } from "@lib/constants";
-import { ErrorType, validate } from "@lib/validation";
+import {
+  describeError,
+  ErrorType,
+  validate,
+  ValidationError,
+} from "@lib/validation";
+import { loadDocumentSymbols } from "./symbols";
 import { schemaRangeToVscode, vscodeDocumentToNode } from "./typeConverters";
 
+const DIAGNOSTIC_SEVERITIES: {
+  [key in PinSeverity]: vscode.DiagnosticSeverity;
+} = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+// Validate the pins of the document with the settings of the extension
+export async function validateDocument(
+  doc: vscode.TextDocument,
+  schema: CurrentFile,
+  repoConfig: RepoConfig
+): Promise<ValidationError[]> {
+  const config = vscode.workspace.getConfiguration(PROJECT_NAME);
+  return validate(vscodeDocumentToNode(doc), schema, {
+    fuzzyThreshold: config.get<number>("fuzzyMatchThreshold"),
+    tags: config.get<string[]>("validateTags"),
+    normalization: repoConfig.normalization,
+    loadSymbols: loadDocumentSymbols,
+  });
+}
+
 export async function getDiagnostics(
   doc: vscode.TextDocument,
-  schema: CurrentFile
+  schema: CurrentFile,
+  repoConfig: RepoConfig
 ): Promise<vscode.Diagnostic[]> {
-  const errors = await validate(vscodeDocumentToNode(doc), schema);
+  return errorsToDiagnostics(
+    doc,
+    await validateDocument(doc, schema, repoConfig)
+  );
+}
+
+export function errorsToDiagnostics(
+  doc: vscode.TextDocument,
+  errors: ValidationError[]
+): vscode.Diagnostic[] {
   return errors.map((error) => {
-    let message: string;
-    if (error.errorType === ErrorType.CommentMismatch) {
-      message = `Comment text does not match schema. Expected: "${error.expected.comment}", got: "${error.actual.comment}"`;
-    } else if (error.errorType === ErrorType.CodeMismatch) {
-      message = `Code does not match schema. Expected: "${error.expected.code}", got: "${error.actual.code}"`;
-    } else if (error.errorType === ErrorType.BothMismatch) {
-      message = `Both code and comment do not match schema. Expected: "${error.expected.comment}", got: "${error.actual.comment}"`;
-    } else {
-      message = `Unknown error`;
-    }
     return {
       range: schemaRangeToVscode(error.commentRange),
-      message,
-      severity: vscode.DiagnosticSeverity.Error,
+      message: describeError(error),
+      severity: DIAGNOSTIC_SEVERITIES[error.severity],
       source: PROJECT_NAME,
       code: {
         value: error.commentId,
@@ -38,3 +69,15 @@ export async function getDiagnostics(
     };
   });
 }
+
+// Status of each pin in the validation errors of its file, by pin id: the name of its error type.
+// Pins without errors are not included, they are OK.
+export function pinStatuses(errors: ValidationError[]): Map<number, string> {
+  const statuses = new Map<number, string>();
+  for (const error of errors) {
+    if (!statuses.has(error.commentId)) {
+      statuses.set(error.commentId, ErrorType[error.errorType]);
+    }
+  }
+  return statuses;
+}
@@ -6,6 +6,9 @@ import { activate as activateCommands } from "./commands";
 import { activate as activateCodeActions } from "./codeActions";
 import { activate as activateHover } from "./hover";
 import { activate as activateDefinition } from "./definition";
+import { activate as activatePinsView } from "./pinsView";
+import { activate as activateCodeLens } from "./codeLens";
+import { activate as activateReferences } from "./references";
 
 export async function activate(context: vscode.ExtensionContext) {
   const languageConfig = new LanguageConfiguration();
@@ -21,4 +24,10 @@ export async function activate(context: vscode.ExtensionContext) {
   activateHover(context, schemaModel);
 
   activateDefinition(context, schemaModel);
+
+  activatePinsView(context, schemaModel);
+
+  activateCodeLens(context, schemaModel);
+
+  activateReferences(context, schemaModel);
 }
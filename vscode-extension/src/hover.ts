@@ -1,4 +1,6 @@
-import { resolveCodePath } from "@lib/schema";
+import { getCodeTargets, getPinDetails, resolveCodePath } from "@lib/schema";
+import { formatSymbolPath } from "@lib/symbols";
+import { describeHashedText } from "@lib/storage";
 import * as vscode from "vscode";
 import { SchemaIndex } from "./SchemaIndex";
 import { schemaRangeToVscode } from "./typeConverters";
@@ -29,26 +31,61 @@ class HoverProvider implements vscode.HoverProvider {
       if (token.isCancellationRequested) {
         return;
       }
+      const detailLines = getPinDetails(comment).map(
+        ({ label, value }) => `**${label}**: ${value}`
+      );
       const commentRange = schemaRangeToVscode(comment.commentRange);
+      const targets = getCodeTargets(comment);
       if (
         sourceUri === document.uri.toString() &&
         commentRange.contains(position)
       ) {
+        // List every code target, with its file when it is in another file
+        const codeLines = targets.map((target) => {
+          const codeUri = resolveCodePath(vscode.Uri.parse(sourceUri), target);
+          const location =
+            codeUri.toString() === sourceUri
+              ? ""
+              : ` (${vscode.workspace.asRelativePath(codeUri)}:${
+                  target.codeRange.start.line + 1
+                })`;
+          const symbol =
+            target.codeSymbol != null
+              ? ` (${formatSymbolPath(target.codeSymbol)})`
+              : "";
+          return `**Code**${location}${symbol}: ${
+            target.codeHash != null
+              ? describeHashedText(target.codeValue, target.codeHash)
+              : `\`${target.codeValue}\``
+          }`;
+        });
         return new vscode.Hover(
-          `**Code**: \`${comment.codeValue}\``,
+          [...codeLines, ...detailLines].join("\n\n"),
           commentRange
         );
       }
-      const codeRange = schemaRangeToVscode(comment.codeRange);
-      const codeUri = resolveCodePath(vscode.Uri.parse(sourceUri), comment);
-      if (
-        codeUri.toString() === document.uri.toString() &&
-        codeRange.contains(position)
-      ) {
-        return new vscode.Hover(
-          `**Comment**: ${comment.commentValue}`,
-          codeRange
-        );
+      for (const target of targets) {
+        const codeRange = schemaRangeToVscode(target.codeRange);
+        const codeUri = resolveCodePath(vscode.Uri.parse(sourceUri), target);
+        if (
+          codeUri.toString() === document.uri.toString() &&
+          codeRange.contains(position)
+        ) {
+          return new vscode.Hover(
+            [
+              `**Comment**: ${
+                comment.commentHash != null
+                  ? describeHashedText(
+                      comment.commentValue,
+                      comment.commentHash
+                    )
+                  : comment.commentValue
+              }`,
+              ...detailLines,
+            ].join("\n\n"),
+            codeRange
+          );
+        }
       }
     }
   }
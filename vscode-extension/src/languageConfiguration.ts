@@ -4,27 +4,25 @@ import * as path from "path";
 import * as vscode from "vscode";
 import * as json5 from "json5";
 import { getErrorMessage } from "@lib/utils";
+import { CommentSyntax } from "@lib/comments";
+import { getCommentSyntax } from "@lib/commentSyntax";
 import { log } from "./logging";
 
-interface CommentConfig {
-  lineComment?: string;
-  blockComment?: [string, string];
-}
-
 export class LanguageConfiguration {
   // Maps language codes to comment configurations. Null if unknown.
-  private readonly commentConfig = new Map<string, CommentConfig | null>();
+  private readonly commentConfig = new Map<string, CommentSyntax | null>();
 
   /**
    * Gets the configuration information for the specified language
    * @param languageCode like "rust", "python", etc. (not the file extension)
-   * @returns a CommentConfig, as provided by the contributing extension
+   * @returns a CommentSyntax, as provided by the contributing extension,
+   * or the built-in syntax of the language if no installed extension provides one
    */
   // reference: implementation ported from better-comments
   // https://github.com/aaron-bond/better-comments/blob/084a906e73a3ca96d5319441714be8e3a2a8c385/src/configuration.ts#L44
   public async GetCommentConfiguration(
     languageCode: string
-  ): Promise<CommentConfig | null> {
+  ): Promise<CommentSyntax | null> {
     // Find the path to the configuration file from the extension that contributes the language
     function findExtensionContributionPath() {
       for (let extension of vscode.extensions.all) {
@@ -44,9 +42,11 @@ export class LanguageConfiguration {
       return this.commentConfig.get(languageCode)!;
     }
 
+    const builtinSyntax = getCommentSyntax({ languageId: languageCode });
     const configPath = findExtensionContributionPath();
     if (!configPath) {
-      return null;
+      this.commentConfig.set(languageCode, builtinSyntax);
+      return builtinSyntax;
     }
 
     try {
@@ -59,14 +59,15 @@ export class LanguageConfiguration {
       // I'm not sure why the module needs to be imported this way
       const config = (json5 as any).default.parse(content);
 
-      this.commentConfig.set(languageCode, config.comments);
+      const syntax = config.comments || builtinSyntax;
+      this.commentConfig.set(languageCode, syntax);
 
-      return config.comments;
+      return syntax;
     } catch (error) {
       // Log error message to vscode output pane
       log(getErrorMessage(error));
-      this.commentConfig.set(languageCode, null);
-      return null;
+      this.commentConfig.set(languageCode, builtinSyntax);
+      return builtinSyntax;
     }
   }
 }
@@ -17,6 +17,11 @@ export function log(...messages: unknown[]) {
   output.appendLine(messages.join(" "));
 }
 
+// Reveal the output channel, e.g. for a report written with log
+export function showLog() {
+  output?.show(true);
+}
+
 export function dlog(...messages: unknown[]) {
   if (DEBUG) {
     log(...messages);
@@ -0,0 +1,163 @@
+// Tree view of every pin in the workspace, grouped by save root and source file.
+// Each pin shows its comment, its code target and whether it is currently valid.
+
+import * as vscode from "vscode";
+import * as path from "path";
+
+import {
+  getCodeTargets,
+  getPinDetails,
+  getSourceRootRelativePath,
+  resolveCodePath,
+} from "@lib/schema";
+import { CurrentFile } from "@lib/types";
+import { PinReference } from "./commands";
+import { pinStatuses } from "./diagnostics";
+import { errorWrapper as e } from "./logging";
+import { SchemaIndex } from "./SchemaIndex";
+import { describeLocation, oneLine } from "./vscodeUtils";
+
+export const PINS_VIEW_ID = "code-couplet-vscode.pins";
+
+type PinnedFile = { sourceUri: vscode.Uri; schema: CurrentFile };
+
+type PinsNode =
+  | { kind: "root"; rootUri: vscode.Uri; files: PinnedFile[] }
+  | ({ kind: "file"; rootUri: vscode.Uri } & PinnedFile)
+  // Status is the name of the error type, OK, or null if the file could not be validated
+  | ({ kind: "pin"; status: string | null } & PinReference);
+
+export function activate(
+  context: vscode.ExtensionContext,
+  schemaIndex: SchemaIndex
+) {
+  const provider = new PinsTreeProvider(schemaIndex);
+  context.subscriptions.push(
+    provider,
+    vscode.window.createTreeView(PINS_VIEW_ID, {
+      treeDataProvider: provider,
+      showCollapseAll: true,
+    }),
+    vscode.commands.registerCommand("code-couplet-vscode.refreshPins", () =>
+      provider.refresh()
+    )
+  );
+}
+
+function pinIcon(status: string | null) {
+  if (status == null) {
+    return new vscode.ThemeIcon("circle-outline");
+  }
+  return new vscode.ThemeIcon(status === "OK" ? "pass" : "error");
+}
+
+// Where the code of the pin is, with the number of other targets
+function describeTargets(pin: PinReference) {
+  const [first, ...rest] = getCodeTargets(pin.comment);
+  const location = describeLocation(
+    resolveCodePath(pin.sourceUri, first),
+    first.codeRange,
+    pin.sourceUri
+  );
+  return rest.length > 0 ? `${location} (+${rest.length} more)` : location;
+}
+
+class PinsTreeProvider implements vscode.TreeDataProvider<PinsNode> {
+  private disposable: vscode.Disposable;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private schemaIndex: SchemaIndex) {
+    this.disposable = vscode.Disposable.from(
+      this.changeEmitter,
+      // Pins are added, moved and removed through their schema files
+      schemaIndex.onDidChangeSchemas(() => this.refresh()),
+      // and their status changes when their source files are saved
+      vscode.workspace.onDidSaveTextDocument(() => this.refresh())
+    );
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  async getChildren(node?: PinsNode): Promise<PinsNode[]> {
+    if (node == null) {
+      const roots = await this.schemaIndex.getAllSchemaRoots();
+      return roots
+        .filter(({ files }) => files.length > 0)
+        .map(({ rootUri, files }) => ({ kind: "root", rootUri, files }));
+    }
+    if (node.kind === "root") {
+      return node.files
+        .slice()
+        .sort((a, b) => a.sourceUri.path.localeCompare(b.sourceUri.path))
+        .map((file) => ({ kind: "file", rootUri: node.rootUri, ...file }));
+    }
+    if (node.kind === "file") {
+      // The source file may be missing or unreadable, then the status of its pins is unknown
+      const errors = await e(
+        () => this.schemaIndex.validateByUri(node.sourceUri),
+        { errorPrefix: `Validating ${node.sourceUri.fsPath}` }
+      )();
+      const statuses = errors != null ? pinStatuses(errors) : null;
+      return node.schema.comments
+        .slice()
+        .sort((a, b) => a.commentRange.start.line - b.commentRange.start.line)
+        .map((comment) => ({
+          kind: "pin",
+          sourceUri: node.sourceUri,
+          comment,
+          status: statuses != null ? statuses.get(comment.id) ?? "OK" : null,
+        }));
+    }
+    return [];
+  }
+
+  getTreeItem(node: PinsNode): vscode.TreeItem {
+    if (node.kind === "root") {
+      const item = new vscode.TreeItem(
+        path.basename(node.rootUri.fsPath),
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.tooltip = node.rootUri.fsPath;
+      item.iconPath = new vscode.ThemeIcon("root-folder");
+      return item;
+    }
+    if (node.kind === "file") {
+      const item = new vscode.TreeItem(
+        getSourceRootRelativePath(node.rootUri, node.sourceUri),
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.resourceUri = node.sourceUri;
+      item.iconPath = vscode.ThemeIcon.File;
+      item.description = `${node.schema.comments.length} pins`;
+      return item;
+    }
+    const { comment, status } = node;
+    const item = new vscode.TreeItem(
+      `Line ${comment.commentRange.start.line + 1}: ${oneLine(
+        comment.commentValue
+      )}`,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = `${status ?? "Not checked"} · ${describeTargets(node)}`;
+    item.tooltip = [
+      comment.commentValue,
+      ...getCodeTargets(comment).map((target) => `Code: ${target.codeValue}`),
+      ...getPinDetails(comment).map(({ label, value }) => `${label}: ${value}`),
+    ].join("\n");
+    item.iconPath = pinIcon(status);
+    item.contextValue = "pin";
+    item.command = {
+      command: "code-couplet-vscode.revealPin",
+      title: "Reveal Pin",
+      arguments: [node],
+    };
+    return item;
+  }
+
+  dispose() {
+    this.disposable.dispose();
+  }
+}
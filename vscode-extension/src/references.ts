@@ -0,0 +1,87 @@
+import { getCodeTargets, resolveCodePath } from "@lib/schema";
+import * as vscode from "vscode";
+import { errorWrapper as e } from "./logging";
+import { SchemaIndex } from "./SchemaIndex";
+import { schemaRangeToVscode } from "./typeConverters";
+
+export function activate(
+  context: vscode.ExtensionContext,
+  schemaIndex: SchemaIndex
+) {
+  const provider = new ReferenceProvider(schemaIndex);
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider({ scheme: "file" }, provider),
+    vscode.commands.registerCommand(
+      "code-couplet-vscode.showPinnedComments",
+      () =>
+        e(() => showPinnedComments(schemaIndex), {
+          showErrorMessage: true,
+          errorPrefix: "Show Pinned Comments",
+        })()
+    )
+  );
+}
+
+/**
+ * Locations of every comment pinned to code at the position, from any file including this one
+ */
+async function findPinnedComments(
+  schemaIndex: SchemaIndex,
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<vscode.Location[]> {
+  const references = await schemaIndex.getCodeReferencesByFile(document.uri);
+  return references
+    .filter(({ sourceUri, comment }) =>
+      getCodeTargets(comment).some(
+        (target) =>
+          resolveCodePath(vscode.Uri.parse(sourceUri), target).toString() ===
+            document.uri.toString() &&
+          schemaRangeToVscode(target.codeRange).contains(position)
+      )
+    )
+    .map(
+      ({ sourceUri, comment }) =>
+        new vscode.Location(
+          vscode.Uri.parse(sourceUri),
+          schemaRangeToVscode(comment.commentRange)
+        )
+    );
+}
+
+/**
+ * VS Code command that shows the comments pinned to the code at the cursor in the references peek view
+ */
+async function showPinnedComments(schemaIndex: SchemaIndex) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return;
+  }
+  const position = editor.selection.active;
+  const locations = await findPinnedComments(
+    schemaIndex,
+    editor.document,
+    position
+  );
+  if (locations.length === 0) {
+    throw new Error("No comments are pinned to the code at the cursor");
+  }
+  await vscode.commands.executeCommand(
+    "editor.action.showReferences",
+    editor.document.uri,
+    position,
+    locations
+  );
+}
+
+class ReferenceProvider implements vscode.ReferenceProvider {
+  constructor(private schemaIndex: SchemaIndex) {}
+
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Location[]> {
+    // Find All References on pinned code also lists the comments pinned to it
+    return findPinnedComments(this.schemaIndex, document, position);
+  }
+}
@@ -1,26 +1,10 @@
-import { CurrentFile, Range as SchemaRange } from "@lib/types";
+import { Range as SchemaRange } from "@lib/types";
 import { pos, schemaRangeToVscode } from "./typeConverters";
 
 import * as vscode from "vscode";
 
 export const EMPTY_SCHEMA_HASH = "0";
 
-export function findIndexOfMatchingRanges(
-  schema: CurrentFile,
-  commentRange: vscode.Range,
-  codeRange: vscode.Range
-  // TODO: check the code uri matches too
-): number {
-  return schema.comments.findIndex((comment) => {
-    const existingCommentRange = schemaRangeToVscode(comment.commentRange);
-    const existingCodeRange = schemaRangeToVscode(comment.codeRange);
-    return (
-      existingCommentRange.isEqual(commentRange) &&
-      existingCodeRange.isEqual(codeRange)
-    );
-  });
-}
-
 export function countNewLines(text: string): number {
   let pos = text.indexOf("\n");
   let count = 0;
@@ -39,17 +23,6 @@ export function lastLineLength(text: string): number {
   return text.length - lastLineIndex - 1;
 }
 
-/**
- * Return a unique id for the given schema by taking its current max and adding one
- */
-export function nextId(schema: CurrentFile): number {
-  let currentMax = -1;
-  for (const comment of schema.comments) {
-    currentMax = Math.max(currentMax, comment.id);
-  }
-  return currentMax + 1;
-}
-
 /**
  * Update schemaRanges in place such that all ranges occurring after the change event
  * are shifted by the amount that was changed.
@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+
+import { SymbolNode } from "@lib/symbols";
+import { vscodeRangeToSchema } from "./typeConverters";
+
+function toSymbolNode(symbol: vscode.DocumentSymbol): SymbolNode {
+  return {
+    name: symbol.name,
+    kind: vscode.SymbolKind[symbol.kind].toLowerCase(),
+    range: vscodeRangeToSchema(symbol.range),
+    children: (symbol.children || []).map(toSymbolNode),
+  };
+}
+
+/**
+ * Load the symbols of the document from the symbol providers of its language.
+ * Resolves to null when there are none, e.g. before the language server of the file started,
+ * so pins anchored to symbols are not reported as broken only because symbols are missing.
+ */
+export async function loadDocumentSymbols(
+  uri: vscode.Uri
+): Promise<SymbolNode[] | null> {
+  const symbols = await vscode.commands.executeCommand<
+    (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+  >("vscode.executeDocumentSymbolProvider", uri);
+  if (symbols == null || symbols.length === 0) {
+    return null;
+  }
+  return symbols.map((symbol) =>
+    // Flat symbol information has no children, only its own location
+    "location" in symbol
+      ? toSymbolNode({
+          ...symbol,
+          detail: "",
+          range: symbol.location.range,
+          selectionRange: symbol.location.range,
+          children: [],
+        })
+      : toSymbolNode(symbol)
+  );
+}
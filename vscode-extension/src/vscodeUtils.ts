@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { Range as SchemaRange } from "@lib/types";
 import { fileToVscodeDocument } from "./typeConverters";
 
 export async function documentForUri(
@@ -27,3 +28,18 @@ export function editorForUri(uri: vscode.Uri): vscode.TextEditor | undefined {
     }
   }
 }
+
+// Text of a comment or code on one line of a menu
+export const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// Where the range is as seen from another file, e.g. "line 12" or "src/schema.ts:120"
+export function describeLocation(
+  uri: vscode.Uri,
+  range: SchemaRange,
+  fromUri: vscode.Uri
+): string {
+  const line = range.start.line + 1;
+  return uri.toString() === fromUri.toString()
+    ? `line ${line}`
+    : `${vscode.workspace.asRelativePath(uri)}:${line}`;
+}